@@ -2,6 +2,8 @@ import { Request } from "express";
 
 import { AppError } from "../errors/AppError";
 import { ErrorCode } from "../types/api";
+import { getCurrentContext } from "../utils/context";
+import { SERVICE_TOKEN_HEADER } from "../utils/serviceToken";
 
 export interface HttpClientOptions {
   timeout?: number;
@@ -10,6 +12,7 @@ export interface HttpClientOptions {
   headers?: Record<string, string>;
   propagateAuth?: boolean;
   propagateCorrelationId?: boolean;
+  serviceToken?: string | (() => string | Promise<string>);
 }
 
 export interface HttpClientResponse<T = unknown> {
@@ -54,20 +57,26 @@ export const httpRequest = async <T = unknown>(
     req,
     propagateAuth = true,
     propagateCorrelationId = true,
+    serviceToken,
   } = options;
 
   const finalHeaders: Record<string, string> = {
     "Content-Type": "application/json",
     ...headers,
   };
-  if (req && propagateAuth) {
+  // Only the correlation ID falls back to the request context; the caller's
+  // Authorization header is forwarded only from an explicit req.
+  const context = req ? undefined : getCurrentContext();
+  if (propagateAuth && req) {
     const authHeader = req.headers.authorization;
     if (authHeader) {
       finalHeaders["Authorization"] = authHeader;
     }
   }
-  if (req && propagateCorrelationId) {
-    const correlationId = req.correlationId || req.headers["x-correlation-id"];
+  if (propagateCorrelationId) {
+    const correlationId = req
+      ? req.correlationId || req.headers["x-correlation-id"]
+      : context?.correlationId;
     if (correlationId) {
       finalHeaders["X-Correlation-Id"] = Array.isArray(correlationId)
         ? correlationId[0]
@@ -75,6 +84,11 @@ export const httpRequest = async <T = unknown>(
     }
   }
 
+  if (serviceToken) {
+    finalHeaders[SERVICE_TOKEN_HEADER] =
+      typeof serviceToken === "function" ? await serviceToken() : serviceToken;
+  }
+
   const shouldRetry = isRetryableMethod(method);
   const maxAttempts = shouldRetry ? retries + 1 : 1;
   let lastError: unknown;
@@ -1,10 +1,16 @@
 export * from "./middlewares/auth.middleware";
+export * from "./middlewares/serviceAuth.middleware";
+export * from "./middlewares/apiKey.middleware";
+export * from "./middlewares/authStrategy.middleware";
 export * from "./middlewares/error.middleware";
 export * from "./middlewares/logger.middleware";
 export * from "./middlewares/security.middleware";
 export * from "./middlewares/requestContext.middleware";
 export * from "./middlewares/permission.middleware";
+export * from "./middlewares/policy.middleware";
 export * from "./middlewares/tenant.middleware";
+export * from "./middlewares/ownership.middleware";
+export * from "./middlewares/tenantPolicy.middleware";
 export * from "./middlewares/validate.middleware";
 export * from "./middlewares/rateLimit.middleware";
 export * from "./middlewares/idempotency.middleware";
@@ -19,8 +25,23 @@ export * from "./utils/pagination";
 export * from "./utils/validation";
 export * from "./utils/secrets";
 export * from "./utils/cacheCleanup";
+export * from "./utils/jwks";
+export * from "./utils/claims";
+export * from "./utils/keyring";
+export * from "./utils/revocation";
+export * from "./utils/serviceToken";
+export * from "./utils/permissions";
+export * from "./utils/roles";
+export * from "./utils/policy";
+export * from "./utils/audit";
+export * from "./utils/routeManifest";
+export * from "./utils/tenantScope";
+export * from "./utils/tenantPolicy";
+export * from "./utils/tenantStatus";
+export * from "./utils/context";
 
 export * from "./types/user";
+export * from "./types/service";
 export * from "./types/api";
 export * from "./errors/AppError";
 
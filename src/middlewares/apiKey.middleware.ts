@@ -0,0 +1,114 @@
+import { createHash, randomBytes } from "crypto";
+
+import { NextFunction, Request, RequestHandler, Response } from "express";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+import { UserClaims } from "../types/user";
+import { validateUserClaims } from "../utils/claims";
+import { declareGuard } from "../utils/routeManifest";
+
+export interface ApiKeyRecord {
+  keyId: string;
+  tenantId: string;
+  userId?: string;
+  role?: string;
+  permissions?: string[];
+  expiresAt?: Date | number;
+  revoked?: boolean;
+}
+
+export type ApiKeyLookup = (
+  hash: string,
+) => Promise<ApiKeyRecord | null | undefined>;
+
+export interface ApiKeyAuthenticatorOptions {
+  lookup: ApiKeyLookup;
+  header?: string;
+  hash?: (key: string) => string;
+  fallback?: RequestHandler;
+}
+
+export const API_KEY_HEADER = "X-API-Key";
+const MAX_API_KEY_LENGTH = 256;
+const INVALID_API_KEY = "Invalid API key";
+
+export const hashApiKey = (key: string): string =>
+  createHash("sha256").update(key).digest("hex");
+
+export const generateApiKey = (prefix = "pqa") => {
+  const key = `${prefix}_${randomBytes(32).toString("base64url")}`;
+  return { key, hash: hashApiKey(key) };
+};
+
+const unauthorized = (message: string) =>
+  new AppError(ErrorCode.UNAUTHORIZED, message, 401);
+
+const isExpired = (expiresAt: Date | number | undefined, now: number) =>
+  expiresAt !== undefined && new Date(expiresAt).getTime() <= now;
+
+export const verifyApiKey = async (
+  key: string,
+  options: Pick<ApiKeyAuthenticatorOptions, "lookup" | "hash">,
+): Promise<UserClaims> => {
+  if (!key || key.length > MAX_API_KEY_LENGTH) {
+    throw unauthorized(INVALID_API_KEY);
+  }
+
+  const hash = (options.hash ?? hashApiKey)(key);
+  let record: ApiKeyRecord | null | undefined;
+  try {
+    record = await options.lookup(hash);
+  } catch (err) {
+    console.error("[ApiKey] Lookup failed", err);
+    throw new AppError(
+      ErrorCode.INTERNAL_ERROR,
+      "Authentication unavailable",
+      503,
+    );
+  }
+
+  if (!record || record.revoked || isExpired(record.expiresAt, Date.now())) {
+    throw unauthorized(INVALID_API_KEY);
+  }
+
+  try {
+    return validateUserClaims({
+      userId: record.userId ?? `apikey:${record.keyId}`,
+      tenantId: record.tenantId,
+      role: record.role,
+      permissions: record.permissions,
+    });
+  } catch {
+    throw unauthorized(INVALID_API_KEY);
+  }
+};
+
+export const createApiKeyAuthenticator = (
+  options: ApiKeyAuthenticatorOptions,
+) => {
+  const header = options.header ?? API_KEY_HEADER;
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header(header);
+    if (key === undefined) {
+      if (options.fallback) {
+        return options.fallback(req, res, next);
+      }
+      return next(unauthorized("Missing API key"));
+    }
+
+    return verifyApiKey(key, options).then(
+      (user) => {
+        req.user = user;
+        next();
+      },
+      (err: unknown) => next(err),
+    );
+  };
+
+  return declareGuard(middleware, {
+    kind: "authentication",
+    requirement: "apiKey",
+  });
+};
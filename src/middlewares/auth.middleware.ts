@@ -1,40 +1,284 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
+import jwt, {
+  Algorithm,
+  JwtPayload,
+  Secret,
+  VerifyOptions,
+} from "jsonwebtoken";
 
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
 import { UserClaims } from "../types/user";
+import { ClaimsMapper, validateUserClaims } from "../utils/claims";
+import {
+  AsymmetricAlgorithm,
+  createJwksKeyResolver,
+  isAsymmetricAlgorithm,
+  JwksOptions,
+} from "../utils/jwks";
+import {
+  Keyring,
+  recordSigningKeyUsage,
+  selectSigningKeys,
+  SigningKey,
+} from "../utils/keyring";
+import { isRevoked, RevocationStore } from "../utils/revocation";
+import { declareGuard } from "../utils/routeManifest";
 
-export const authenticate = (
-  req: Request,
-  res: Response,
-  next: NextFunction,
-) => {
+export type SymmetricAlgorithm = "HS256" | "HS384" | "HS512";
+
+export interface AuthenticatorOptions {
+  secret?: string | (() => string | undefined);
+  keyring?: Keyring;
+  jwks?: JwksOptions;
+  algorithms?: Algorithm[];
+  issuer?: string | string[];
+  audience?: string | string[];
+  maxTokenAge?: string | number;
+  clockTolerance?: number;
+  requireExp?: boolean;
+  requiredClaims?: string[];
+  claimsMapper?: ClaimsMapper;
+  revocationStore?: RevocationStore;
+  revocationFailOpen?: boolean;
+}
+
+export interface JwksAuthenticatorOptions extends JwksOptions {
+  algorithms?: AsymmetricAlgorithm[];
+}
+
+const SYMMETRIC_ALGORITHMS: readonly SymmetricAlgorithm[] = [
+  "HS256",
+  "HS384",
+  "HS512",
+];
+const DEFAULT_SYMMETRIC_ALGORITHMS: SymmetricAlgorithm[] = ["HS256"];
+const DEFAULT_ASYMMETRIC_ALGORITHMS: AsymmetricAlgorithm[] = ["RS256", "ES256"];
+const INVALID_TOKEN = "Invalid or expired token";
+
+const unauthorized = (message: string) =>
+  new AppError(ErrorCode.UNAUTHORIZED, message, 401);
+
+const notConfigured = () =>
+  new AppError(ErrorCode.INTERNAL_ERROR, "Authentication not configured", 500);
+
+const isSymmetricAlgorithm = (alg: unknown): alg is SymmetricAlgorithm =>
+  SYMMETRIC_ALGORITHMS.includes(alg as SymmetricAlgorithm);
+
+export const extractBearerToken = (req: Request): string => {
   const authHeader = req.headers.authorization;
   if (!authHeader) {
-    return res.status(401).json({ message: "Missing Authorization header" });
+    throw unauthorized("Missing Authorization header");
   }
 
   const [scheme, token] = authHeader.split(" ");
   if (scheme !== "Bearer") {
-    return res.status(401).json({ message: "Invalid authorization scheme" });
+    throw unauthorized("Invalid authorization scheme");
   }
 
   if (!token) {
-    return res.status(401).json({ message: "Missing token" });
+    throw unauthorized("Missing token");
   }
 
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    return res.status(500).json({ message: "Authentication not configured" });
+  return token;
+};
+
+type MaybePromise<T> = T | Promise<T>;
+
+const toAuthError = (err: unknown): AppError =>
+  err instanceof AppError ? err : unauthorized(INVALID_TOKEN);
+
+export const createTokenVerifier = (options: AuthenticatorOptions = {}) => {
+  const algorithms =
+    options.algorithms ??
+    (options.jwks
+      ? DEFAULT_ASYMMETRIC_ALGORITHMS
+      : DEFAULT_SYMMETRIC_ALGORITHMS);
+
+  if (options.jwks && (options.secret || options.keyring)) {
+    throw new Error("Configure either jwks or a secret/keyring, not both");
+  }
+  if (!algorithms.length) {
+    throw new Error("At least one algorithm is required");
+  }
+  if (options.jwks && !algorithms.every(isAsymmetricAlgorithm)) {
+    throw new Error("JWKS authenticator accepts asymmetric algorithms only");
   }
+  if (!options.jwks && !algorithms.every(isSymmetricAlgorithm)) {
+    throw new Error("Secret authenticator accepts HMAC algorithms only");
+  }
+
+  const resolver = options.jwks ? createJwksKeyResolver(options.jwks) : null;
+  const requiredClaims = options.requiredClaims ?? [];
+  const verifyOptions: VerifyOptions = {
+    algorithms,
+    issuer: options.issuer as VerifyOptions["issuer"],
+    audience: options.audience as VerifyOptions["audience"],
+    maxAge: options.maxTokenAge,
+    clockTolerance: options.clockTolerance,
+  };
+
+  const getSecret = (): string => {
+    const secret =
+      typeof options.secret === "function"
+        ? options.secret()
+        : (options.secret ?? process.env.JWT_SECRET);
+    if (!secret) {
+      throw notConfigured();
+    }
+    return secret;
+  };
+
+  const resolveJwksKey = async (token: string): Promise<Secret> => {
+    const decoded = jwt.decode(token, { complete: true });
+    const alg = decoded?.header.alg;
+    if (!alg || !algorithms.includes(alg as Algorithm)) {
+      throw unauthorized(INVALID_TOKEN);
+    }
+    try {
+      return await resolver!.getKey(decoded.header.kid, alg);
+    } catch (err) {
+      if (err instanceof AppError && err.status >= 500) throw err;
+      throw unauthorized(INVALID_TOKEN);
+    }
+  };
 
-  try {
-    const decoded = jwt.verify(token, secret, {
-      algorithms: ["HS256"],
-    }) as UserClaims;
+  const getSigningKeys = (token: string): SigningKey[] => {
+    if (!options.keyring) {
+      return [{ secret: getSecret() }];
+    }
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    return selectSigningKeys(options.keyring, kid);
+  };
 
-    req.user = decoded;
+  const verifySignature = (token: string, key: Secret): JwtPayload => {
+    try {
+      return jwt.verify(token, key, verifyOptions) as JwtPayload;
+    } catch {
+      throw unauthorized(INVALID_TOKEN);
+    }
+  };
+
+  const verifyWithKeyring = (token: string): JwtPayload => {
+    for (const key of getSigningKeys(token)) {
+      let payload: JwtPayload;
+      try {
+        payload = verifySignature(token, key.secret);
+      } catch {
+        continue;
+      }
+      if (options.keyring) {
+        recordSigningKeyUsage(options.keyring, key);
+      }
+      return payload;
+    }
+    throw unauthorized(INVALID_TOKEN);
+  };
+
+  const toUser = (payload: JwtPayload): UserClaims => {
+    if (options.requireExp && payload.exp === undefined) {
+      throw unauthorized(INVALID_TOKEN);
+    }
+    if (requiredClaims.some((claim) => payload[claim] === undefined)) {
+      throw unauthorized(INVALID_TOKEN);
+    }
+    return validateUserClaims(payload, options.claimsMapper);
+  };
+
+  const checkRevocation = async (
+    store: RevocationStore,
+    payload: JwtPayload,
+    user: UserClaims,
+  ): Promise<UserClaims> => {
+    let revoked: boolean;
+    try {
+      revoked = await isRevoked(store, {
+        jti: payload.jti,
+        userId: user.userId,
+        tenantId: user.tenantId,
+        membershipTenantIds: user.memberships?.map((m) => m.tenantId),
+        issuedAt: payload.iat,
+      });
+    } catch (err) {
+      console.error("[Auth] Revocation check failed", err);
+      if (options.revocationFailOpen) return user;
+      throw new AppError(
+        ErrorCode.INTERNAL_ERROR,
+        "Authentication unavailable",
+        503,
+      );
+    }
+    if (revoked) {
+      throw unauthorized("Token has been revoked");
+    }
+    return user;
+  };
+
+  const authorizePayload = (payload: JwtPayload): MaybePromise<UserClaims> => {
+    const user = toUser(payload);
+    const store = options.revocationStore;
+    return store ? checkRevocation(store, payload, user) : user;
+  };
+
+  return (token: string): MaybePromise<UserClaims> => {
+    if (resolver) {
+      return resolveJwksKey(token).then((key) =>
+        authorizePayload(verifySignature(token, key)),
+      );
+    }
+    return authorizePayload(verifyWithKeyring(token));
+  };
+};
+
+export const createAuthenticator = (options: AuthenticatorOptions = {}) => {
+  const verifyToken = createTokenVerifier(options);
+
+  const middleware = (req: Request, _res: Response, next: NextFunction) => {
+    let result: MaybePromise<UserClaims>;
+    try {
+      result = verifyToken(extractBearerToken(req));
+    } catch (err) {
+      return next(toAuthError(err));
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (user) => {
+          req.user = user;
+          next();
+        },
+        (err: unknown) => next(toAuthError(err)),
+      );
+    }
+
+    req.user = result;
     next();
-  } catch {
-    return res.status(401).json({ message: "Invalid or expired token" });
-  }
+  };
+
+  return declareGuard(middleware, {
+    kind: "authentication",
+    requirement: "bearer",
+  });
 };
+
+export const createOptionalAuthenticator = (
+  options: AuthenticatorOptions = {},
+) => {
+  const authenticator = createAuthenticator(options);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.headers.authorization === undefined) {
+      return next();
+    }
+    return authenticator(req, res, next);
+  };
+};
+
+export const authenticate = createAuthenticator();
+
+export const optionalAuthenticate = createOptionalAuthenticator();
+
+export const createJwksAuthenticator = ({
+  algorithms,
+  ...jwks
+}: JwksAuthenticatorOptions) => createAuthenticator({ jwks, algorithms });
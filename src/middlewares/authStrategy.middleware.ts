@@ -0,0 +1,129 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+import { declareGuard } from "../utils/routeManifest";
+import { SERVICE_TOKEN_HEADER } from "../utils/serviceToken";
+
+import {
+  API_KEY_HEADER,
+  ApiKeyAuthenticatorOptions,
+  createApiKeyAuthenticator,
+} from "./apiKey.middleware";
+import { AuthenticatorOptions, createAuthenticator } from "./auth.middleware";
+import {
+  createServiceAuthenticator,
+  ServiceAuthenticatorOptions,
+} from "./serviceAuth.middleware";
+
+export interface AuthStrategy {
+  name: string;
+  scheme?: string;
+  applies: (req: Request) => boolean;
+  handler: RequestHandler;
+}
+
+export interface AuthenticateWithOptions {
+  realm?: string;
+}
+
+const DEFAULT_REALM = "primeqa";
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+const buildChallenge = (scheme: string, params: Record<string, string>) =>
+  `${scheme} ${Object.entries(params)
+    .map(([key, value]) => `${key}=${quote(value)}`)
+    .join(", ")}`;
+
+export const bearerStrategy = (
+  options: AuthenticatorOptions = {},
+): AuthStrategy => ({
+  name: "bearer",
+  scheme: "Bearer",
+  applies: (req) => !!req.headers.authorization,
+  handler: createAuthenticator(options),
+});
+
+export const apiKeyStrategy = (
+  options: Omit<ApiKeyAuthenticatorOptions, "fallback">,
+): AuthStrategy => {
+  const header = options.header ?? API_KEY_HEADER;
+  return {
+    name: "apiKey",
+    scheme: "ApiKey",
+    applies: (req) => req.header(header) !== undefined,
+    handler: createApiKeyAuthenticator({ ...options, fallback: undefined }),
+  };
+};
+
+export const serviceTokenStrategy = (
+  options: ServiceAuthenticatorOptions = {},
+): AuthStrategy => ({
+  name: "service",
+  scheme: "ServiceToken",
+  applies: (req) => req.header(SERVICE_TOKEN_HEADER) !== undefined,
+  handler: createServiceAuthenticator(options),
+});
+
+export const anonymousStrategy = (): AuthStrategy => ({
+  name: "anonymous",
+  applies: () => true,
+  handler: (_req, _res, next) => next(),
+});
+
+export const authenticateWith = (
+  strategies: AuthStrategy[],
+  options: AuthenticateWithOptions = {},
+) => {
+  if (!strategies.length) {
+    throw new Error("At least one authentication strategy is required");
+  }
+  const realm = options.realm ?? DEFAULT_REALM;
+  const challenges = strategies
+    .filter((strategy) => strategy.scheme)
+    .map((strategy) => buildChallenge(strategy.scheme!, { realm }));
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const strategy = strategies.find((candidate) => candidate.applies(req));
+
+    if (!strategy) {
+      if (challenges.length) {
+        res.setHeader("WWW-Authenticate", challenges);
+      }
+      return next(
+        new AppError(ErrorCode.UNAUTHORIZED, "Authentication required", 401),
+      );
+    }
+
+    return strategy.handler(req, res, (err?: unknown) => {
+      if (err === undefined) {
+        return next();
+      }
+      if (
+        err instanceof AppError &&
+        err.status === 401 &&
+        strategy.scheme &&
+        !res.headersSent
+      ) {
+        res.setHeader(
+          "WWW-Authenticate",
+          buildChallenge(strategy.scheme, {
+            realm,
+            error: "invalid_token",
+            error_description: err.message,
+          }),
+        );
+      }
+      next(err);
+    });
+  };
+
+  if (strategies.some((strategy) => strategy.name === "anonymous")) {
+    return middleware;
+  }
+  return declareGuard(middleware, {
+    kind: "authentication",
+    requirement: strategies.map((strategy) => strategy.name).join("|"),
+  });
+};
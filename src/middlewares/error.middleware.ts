@@ -1,34 +1,121 @@
+import { STATUS_CODES } from "http";
+
 import { Request, Response, NextFunction } from "express";
 
 import { AppError } from "../errors/AppError";
-import { ErrorCode } from "../types/api";
-
-export const errorHandler = (
-  err: Error & { status?: number; code?: ErrorCode },
-  req: Request,
-  res: Response,
-  _next: NextFunction,
-) => {
-  console.error("[ErrorHandler]", err);
-
-  const isAppError = err instanceof AppError;
-  const status = isAppError ? err.status : (err.status ?? 500);
-  const code = isAppError ? err.code : ErrorCode.INTERNAL_ERROR;
-  const message =
-    isAppError && err.message
-      ? err.message
-      : status >= 500
-        ? "Internal Server Error"
-        : err.message || "Bad Request";
-
-  const traceId = req.correlationId;
-  const details = isAppError ? err.details : undefined;
-
-  res.status(status).json({
-    success: false,
-    code,
-    message,
-    traceId,
-    details,
-  });
+import { ErrorCode, ErrorResponse, ProblemDetails } from "../types/api";
+import { maskSecrets } from "../utils/secrets";
+
+export type ErrorFormat = "default" | "problem" | "negotiate";
+
+export interface ErrorHandlerLogger {
+  warn: (message: string, meta?: unknown) => void;
+  error: (message: string, meta?: unknown) => void;
+}
+
+export type ErrorMapper = (err: unknown, req: Request) => AppError | undefined;
+
+export interface ErrorHandlerOptions {
+  format?: ErrorFormat;
+  problemTypeBaseUrl?: string;
+  logger?: ErrorHandlerLogger;
+  exposeDetails?: boolean;
+  includeStack?: boolean;
+  mapError?: ErrorMapper;
+}
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+// "negotiate" renders problem details only for clients that ask for them.
+const wantsProblem = (req: Request, format: ErrorFormat) => {
+  if (format !== "negotiate") return format === "problem";
+  const accept = req.headers?.accept;
+  return typeof accept === "string" && accept.includes(PROBLEM_CONTENT_TYPE);
+};
+
+export const createErrorHandler = (options: ErrorHandlerOptions = {}) => {
+  const format = options.format ?? "default";
+  const typeBase = options.problemTypeBaseUrl?.replace(/\/+$/, "");
+  const logger = options.logger ?? console;
+  const isProduction = process.env.NODE_ENV === "production";
+  const exposeDetails = options.exposeDetails ?? !isProduction;
+  const includeStack = options.includeStack ?? !isProduction;
+
+  const mapError = (err: unknown, req: Request) => {
+    if (!options.mapError || err instanceof AppError) return err;
+    try {
+      return options.mapError(err, req) ?? err;
+    } catch (mapErr) {
+      logger.error("[ErrorHandler] mapError failed", {
+        message: mapErr instanceof Error ? mapErr.message : String(mapErr),
+      });
+      return err;
+    }
+  };
+
+  return (
+    error: Error & { status?: number; code?: ErrorCode },
+    req: Request,
+    res: Response,
+    _next: NextFunction,
+  ) => {
+    const err = mapError(error, req) as typeof error;
+    const isAppError = err instanceof AppError;
+    const status = isAppError ? err.status : (err.status ?? 500);
+    const code = isAppError ? err.code : ErrorCode.INTERNAL_ERROR;
+    const message =
+      isAppError && err.message
+        ? err.message
+        : status >= 500
+          ? "Internal Server Error"
+          : err.message || "Bad Request";
+    const traceId = req.correlationId;
+    const path = (req.originalUrl ?? req.url)?.split("?")[0];
+
+    // Client errors are expected traffic; only 5xx are logged as errors.
+    const level = status >= 500 ? "error" : "warn";
+    logger[level](
+      "[ErrorHandler]",
+      maskSecrets({
+        name: err.name,
+        message: err.message,
+        code,
+        status,
+        method: req.method,
+        path,
+        traceId,
+        details: isAppError ? err.details : undefined,
+        stack: includeStack ? err.stack : undefined,
+      }),
+    );
+
+    const details = isAppError && exposeDetails ? err.details : undefined;
+
+    if (wantsProblem(req, format)) {
+      const problem: ProblemDetails = {
+        type: typeBase
+          ? `${typeBase}/${code.toLowerCase().replace(/_/g, "-")}`
+          : "about:blank",
+        title: STATUS_CODES[status] ?? "Error",
+        status,
+        detail: message,
+        instance: path,
+        code,
+        traceId,
+        details,
+      };
+      return res.status(status).type(PROBLEM_CONTENT_TYPE).json(problem);
+    }
+
+    const body: ErrorResponse = {
+      success: false,
+      code,
+      message,
+      traceId,
+      details,
+    };
+    return res.status(status).json(body);
+  };
 };
+
+export const errorHandler = createErrorHandler();
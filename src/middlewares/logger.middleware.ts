@@ -1,5 +1,6 @@
 import morgan from "morgan";
 
+import { getCurrentContext } from "../utils/context";
 import { sanitize } from "../utils/sanitize";
 
 morgan.token("correlationId", (req) => {
@@ -7,7 +8,10 @@ morgan.token("correlationId", (req) => {
     correlationId?: unknown;
     headers?: Record<string, unknown>;
   };
-  const cid = anyReq.correlationId ?? anyReq.headers?.["x-correlation-id"];
+  const cid =
+    anyReq.correlationId ??
+    anyReq.headers?.["x-correlation-id"] ??
+    getCurrentContext()?.correlationId;
   return typeof cid === "string" ? cid : "-";
 });
 
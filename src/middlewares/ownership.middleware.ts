@@ -0,0 +1,113 @@
+import { NextFunction, Request, Response } from "express";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+import { UserClaims } from "../types/user";
+import { recordAuthorizationDecision } from "../utils/audit";
+import { hasPermission, isValidPermission } from "../utils/permissions";
+import { RoleRegistry } from "../utils/roles";
+import { declareGuard } from "../utils/routeManifest";
+import { getRequestPermissions, getTenantScopedUser } from "../utils/user";
+
+import { assertTenantMatch } from "./tenant.middleware";
+
+export type ResourceLoader<T> = (req: Request) => Promise<T | null | undefined>;
+
+export interface OwnershipOptions {
+  ownerField?: string;
+  tenantField?: string;
+  bypassPermissions?: string[];
+  roles?: RoleRegistry;
+}
+
+const isOwner = (value: unknown, userId: string) =>
+  Array.isArray(value) ? value.includes(userId) : value === userId;
+
+export const requireOwnership = <T extends object>(
+  loader: ResourceLoader<T>,
+  options: OwnershipOptions = {},
+) => {
+  const ownerField = options.ownerField ?? "ownerId";
+  const tenantField = options.tenantField ?? "tenantId";
+  const bypassPermissions = options.bypassPermissions ?? [];
+  const invalid = bypassPermissions.find((perm) => !isValidPermission(perm));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid permission: ${JSON.stringify(invalid)}`);
+  }
+
+  const authorize = (req: Request, resource: T | null | undefined) => {
+    if (!resource) {
+      throw new AppError(ErrorCode.NOT_FOUND, "Resource not found", 404);
+    }
+
+    const fields = resource as Record<string, unknown>;
+    const resourceTenant = fields[tenantField];
+    if (typeof resourceTenant !== "string" || !resourceTenant) {
+      recordAuthorizationDecision(req, {
+        check: "tenant",
+        outcome: "deny",
+        requirement: "tenant match",
+        reason: "Resource has no tenant",
+      });
+      throw new AppError(ErrorCode.FORBIDDEN, "Tenant mismatch", 403);
+    }
+    assertTenantMatch(req, resourceTenant);
+
+    const user = getTenantScopedUser(req) as UserClaims;
+    const effective = { permissions: getRequestPermissions(req, options) };
+    const owner = isOwner(fields[ownerField], user.userId);
+    const bypass = owner
+      ? undefined
+      : bypassPermissions.find((perm) => hasPermission(effective, perm));
+    const allowed = owner || !!bypass;
+    recordAuthorizationDecision(req, {
+      check: "ownership",
+      outcome: allowed ? "allow" : "deny",
+      requirement: `owner:${ownerField}`,
+      reason: allowed ? undefined : "Not resource owner",
+      details: bypass ? { bypass } : undefined,
+    });
+    if (!allowed) {
+      throw new AppError(ErrorCode.FORBIDDEN, "Forbidden", 403);
+    }
+
+    req.resource = resource;
+  };
+
+  const middleware = (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new AppError(ErrorCode.UNAUTHORIZED, "Unauthorized", 401));
+    }
+
+    let loaded: Promise<T | null | undefined>;
+    try {
+      loaded = loader(req);
+    } catch (err) {
+      return next(err);
+    }
+
+    return Promise.resolve(loaded)
+      .then((resource) => authorize(req, resource))
+      .then(
+        () => next(),
+        (err: unknown) => next(err),
+      );
+  };
+
+  return declareGuard(middleware, {
+    kind: "ownership",
+    requirement: `owner:${ownerField}`,
+    permissions: bypassPermissions,
+  });
+};
+
+export const getResource = <T>(req: Request): T => {
+  if (req.resource === undefined) {
+    throw new AppError(
+      ErrorCode.INTERNAL_ERROR,
+      "Resource not loaded; use requireOwnership first",
+      500,
+    );
+  }
+  return req.resource as T;
+};
@@ -3,45 +3,140 @@ import { NextFunction, Request, Response } from "express";
 import { AppError } from "../errors/AppError";
 import { ErrorCode } from "../types/api";
 import { UserClaims } from "../types/user";
+import { recordAuthorizationDecision } from "../utils/audit";
+import {
+  assertPermissionExpression,
+  evaluatePermissionExpression,
+  isValidPermission,
+  listExpressionPermissions,
+  PermissionExpression,
+} from "../utils/permissions";
+import { RoleRegistry } from "../utils/roles";
+import { declareGuard } from "../utils/routeManifest";
+import { getRequestPermissions, getTenantScopedUser } from "../utils/user";
+
+export interface PermissionCheckOptions {
+  exposeMissing?: boolean;
+  roles?: RoleRegistry;
+}
 
 const ensureUser = (req: Request): UserClaims => {
-  const user = req.user as UserClaims | undefined;
+  const user = getTenantScopedUser(req);
   if (!user) {
     throw new AppError(ErrorCode.UNAUTHORIZED, "Unauthorized", 401);
   }
   return user;
 };
 
-export const requirePermission = (permission: string) => {
-  return (req: Request, _res: Response, next: NextFunction) => {
-    try {
-      const user = ensureUser(req);
-      const perms = user.permissions ?? [];
-      if (!perms.includes(permission)) {
-        throw new AppError(ErrorCode.FORBIDDEN, "Forbidden", 403);
-      }
-      next();
-    } catch (err) {
-      next(err);
-    }
-  };
+const assertValidPermissions = (permissions: string[]) => {
+  const invalid = permissions.find((perm) => !isValidPermission(perm));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid permission: ${JSON.stringify(invalid)}`);
+  }
 };
 
-export const requireAnyPermission = (permissions: string[]) => {
-  return (req: Request, _res: Response, next: NextFunction) => {
+const forbidden = (details?: unknown) =>
+  new AppError(ErrorCode.FORBIDDEN, "Forbidden", 403, details);
+
+const describeExpression = (expression: PermissionExpression) =>
+  typeof expression === "string" ? expression : JSON.stringify(expression);
+
+const checkExpression = (
+  expression: PermissionExpression,
+  options: PermissionCheckOptions,
+) => {
+  const requirement = describeExpression(expression);
+
+  const middleware = (req: Request, _res: Response, next: NextFunction) => {
+    const audit = (err?: unknown, details?: unknown) =>
+      recordAuthorizationDecision(req, {
+        check: "permission",
+        outcome: err ? "deny" : "allow",
+        requirement,
+        reason: err instanceof Error ? err.message : undefined,
+        details,
+      });
+
     try {
-      if (!permissions?.length) {
-        throw new AppError(ErrorCode.FORBIDDEN, "Forbidden", 403);
-      }
-      const user = ensureUser(req);
-      const perms = new Set(user.permissions ?? []);
-      const hasPermission = permissions.some((perm) => perms.has(perm));
-      if (!hasPermission) {
-        throw new AppError(ErrorCode.FORBIDDEN, "Forbidden", 403);
-      }
-      next();
+      ensureUser(req);
     } catch (err) {
-      next(err);
+      audit(err);
+      return next(err);
+    }
+
+    const {
+      granted,
+      missing,
+      forbidden: held,
+    } = evaluatePermissionExpression(
+      { permissions: getRequestPermissions(req, options) },
+      expression,
+    );
+    if (!granted) {
+      const details = { missing, ...(held.length ? { forbidden: held } : {}) };
+      const err = forbidden(options.exposeMissing ? details : undefined);
+      audit(err, details);
+      return next(err);
     }
+    audit();
+    next();
   };
+
+  return declareGuard(middleware, {
+    kind: "permission",
+    requirement,
+    permissions: listExpressionPermissions(expression),
+  });
+};
+
+export const requirePermission = (
+  permission: string,
+  options: PermissionCheckOptions = {},
+) => {
+  assertValidPermissions([permission]);
+  return checkExpression(permission, options);
+};
+
+export const requireAnyPermission = (
+  permissions: string[],
+  options: PermissionCheckOptions = {},
+) => {
+  assertValidPermissions(permissions ?? []);
+
+  if (!permissions?.length) {
+    const denyAll = (req: Request, _res: Response, next: NextFunction) => {
+      recordAuthorizationDecision(req, {
+        check: "permission",
+        outcome: "deny",
+        requirement: describeExpression({ any: [] }),
+        reason: "No permissions configured",
+      });
+      next(forbidden());
+    };
+    return declareGuard(denyAll, {
+      kind: "permission",
+      requirement: describeExpression({ any: [] }),
+      permissions: [],
+    });
+  }
+  return checkExpression({ any: permissions }, options);
+};
+
+export const requireAllPermissions = (
+  permissions: string[],
+  options: PermissionCheckOptions = {},
+) => {
+  if (!permissions?.length) {
+    throw new Error("At least one permission is required");
+  }
+  assertValidPermissions(permissions);
+  return checkExpression({ all: permissions }, options);
+};
+
+export const requirePermissions = (
+  expression: PermissionExpression,
+  options: PermissionCheckOptions = {},
+) => {
+  assertPermissionExpression(expression);
+  return checkExpression(expression, options);
 };
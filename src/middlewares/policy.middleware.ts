@@ -0,0 +1,118 @@
+import { NextFunction, Request, Response } from "express";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+import { recordAuthorizationDecision } from "../utils/audit";
+import {
+  evaluatePolicy,
+  getPolicyRegistry,
+  PolicyDecision,
+  PolicyRegistry,
+} from "../utils/policy";
+import { RoleRegistry } from "../utils/roles";
+import { declareGuard } from "../utils/routeManifest";
+import { getRequestPermissions, getTenantScopedUser } from "../utils/user";
+
+export interface AuthorizeOptions {
+  action?: string;
+  resource?: unknown;
+  registry?: PolicyRegistry;
+  exposeDecision?: boolean;
+  roles?: RoleRegistry;
+}
+
+export interface PolicyMiddlewareOptions
+  extends Omit<AuthorizeOptions, "resource"> {
+  resource?: (req: Request) => unknown;
+}
+
+export const authorize = (
+  req: Request,
+  policyName: string,
+  options: AuthorizeOptions = {},
+): PolicyDecision => {
+  const deny = (err: AppError, details?: unknown) => {
+    recordAuthorizationDecision(req, {
+      check: "policy",
+      outcome: "deny",
+      requirement: policyName,
+      reason: err.message,
+      details,
+    });
+    return err;
+  };
+
+  const user = getTenantScopedUser(req);
+  if (!user) {
+    throw deny(new AppError(ErrorCode.UNAUTHORIZED, "Unauthorized", 401));
+  }
+
+  const policy = (options.registry ?? getPolicyRegistry())?.get(policyName);
+  if (!policy) {
+    console.error(`[Policy] Unknown policy "${policyName}"`);
+    throw deny(
+      new AppError(
+        ErrorCode.INTERNAL_ERROR,
+        "Authorization not configured",
+        500,
+      ),
+    );
+  }
+
+  // Rules see the same grants as the permission middlewares, role grants
+  // included.
+  const decision = evaluatePolicy(policy, {
+    subject: {
+      ...user,
+      permissions: getRequestPermissions(req, { roles: options.roles }),
+    },
+    action: options.action ?? req.method,
+    resource: options.resource ?? req.resource,
+    environment: { time: new Date(), ip: req.ip },
+  });
+  if (!decision.allowed) {
+    throw deny(
+      new AppError(
+        ErrorCode.FORBIDDEN,
+        "Forbidden",
+        403,
+        options.exposeDecision ? decision : undefined,
+      ),
+      decision,
+    );
+  }
+  recordAuthorizationDecision(req, {
+    check: "policy",
+    outcome: "allow",
+    requirement: policyName,
+    reason: decision.reason,
+    details: decision,
+  });
+  return decision;
+};
+
+export const requirePolicy = (
+  policyName: string,
+  options: PolicyMiddlewareOptions = {},
+) => {
+  if (!policyName) {
+    throw new Error("Policy name is required");
+  }
+
+  const middleware = (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      authorize(req, policyName, {
+        ...options,
+        resource: options.resource?.(req),
+      });
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  return declareGuard(middleware, {
+    kind: "policy",
+    requirement: policyName,
+  });
+};
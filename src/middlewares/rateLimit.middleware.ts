@@ -2,12 +2,14 @@ import { NextFunction, Request, Response } from "express";
 
 import { AppError } from "../errors/AppError";
 import { ErrorCode } from "../types/api";
+import { getTenantPolicy } from "../utils/tenantPolicy";
 
 interface RateLimitOptions {
   windowMs?: number;
   max?: number;
   keyGenerator?: (req: Request) => string;
   message?: string;
+  tenantPolicy?: boolean;
 }
 
 type Entry = {
@@ -33,13 +35,23 @@ export const _cleanupRateLimitCache = (now: number) => {
 export const rateLimit = (options: RateLimitOptions = {}) => {
   const windowMs = options.windowMs ?? 60_000;
   const max = options.max ?? 10;
+  const clientKey = (req: Request) =>
+    req.ip || req.headers["x-forwarded-for"]?.toString() || "unknown";
+  // Tenant ceilings need per-tenant buckets; clients behind one gateway would
+  // otherwise share a single IP bucket across tenants.
   const keyGenerator =
     options.keyGenerator ??
-    ((req) =>
-      req.ip || req.headers["x-forwarded-for"]?.toString() || "unknown");
+    (options.tenantPolicy
+      ? (req: Request) =>
+          `${req.tenantId ?? req.user?.tenantId ?? "-"}:${clientKey(req)}`
+      : clientKey);
   const message = options.message ?? "Too many requests";
 
-  return (req: Request, _res: Response, next: NextFunction) => {
+  const consume = (
+    req: Request,
+    limit: number,
+    window: number,
+  ): AppError | undefined => {
     const now = Date.now();
     const key = keyGenerator(req);
 
@@ -47,17 +59,37 @@ export const rateLimit = (options: RateLimitOptions = {}) => {
 
     const entry = store.get(key);
     if (!entry) {
-      store.set(key, { count: 1, expiresAt: now + windowMs });
-      return next();
+      store.set(key, { count: 1, expiresAt: now + window });
+      return undefined;
     }
 
-    if (entry.count >= max) {
-      return next(new AppError(ErrorCode.FORBIDDEN, message, 429));
+    if (entry.count >= limit) {
+      return new AppError(ErrorCode.FORBIDDEN, message, 429);
     }
 
     entry.count += 1;
     store.set(key, entry);
-    return next();
+    return undefined;
+  };
+
+  return (req: Request, _res: Response, next: NextFunction) => {
+    if (!options.tenantPolicy) {
+      const error = consume(req, max, windowMs);
+      return error ? next(error) : next();
+    }
+
+    // Tenant plan ceilings replace the static max and windowMs.
+    return getTenantPolicy(req).then(
+      (policy) => {
+        const error = consume(
+          req,
+          policy.rateLimit?.max ?? max,
+          policy.rateLimit?.windowMs ?? windowMs,
+        );
+        return error ? next(error) : next();
+      },
+      (err: unknown) => next(err),
+    );
   };
 };
 
@@ -2,6 +2,8 @@ import { randomUUID } from "crypto";
 
 import { NextFunction, Request, Response } from "express";
 
+import { runWithContext } from "../utils/context";
+
 export const requestContext = (
   req: Request,
   res: Response,
@@ -15,5 +17,5 @@ export const requestContext = (
   req.correlationId = correlationId;
   res.setHeader("X-Correlation-Id", correlationId);
 
-  next();
+  runWithContext({ correlationId }, () => next());
 };
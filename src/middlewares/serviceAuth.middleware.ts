@@ -0,0 +1,96 @@
+import { NextFunction, Request, Response } from "express";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+import { ServicePrincipal } from "../types/service";
+import { UserClaims } from "../types/user";
+import {
+  SERVICE_TOKEN_HEADER,
+  ServiceTokenVerifyOptions,
+  verifyServiceToken,
+} from "../utils/serviceToken";
+import { declareGuard } from "../utils/routeManifest";
+
+import {
+  AuthenticatorOptions,
+  createTokenVerifier,
+  extractBearerToken,
+} from "./auth.middleware";
+
+export type OnBehalfOfMode = "ignore" | "optional" | "required";
+
+export interface ServiceAuthenticatorOptions extends ServiceTokenVerifyOptions {
+  onBehalfOf?: OnBehalfOfMode;
+  user?: AuthenticatorOptions;
+}
+
+const unauthorized = (message: string) =>
+  new AppError(ErrorCode.UNAUTHORIZED, message, 401);
+
+export const createServiceAuthenticator = (
+  options: ServiceAuthenticatorOptions = {},
+) => {
+  const mode = options.onBehalfOf ?? "optional";
+  const verifyUserToken = createTokenVerifier(options.user);
+
+  const bindUser = (principal: ServicePrincipal, user: UserClaims) => {
+    if (principal.onBehalfOf && principal.onBehalfOf !== user.userId) {
+      throw new AppError(
+        ErrorCode.FORBIDDEN,
+        "Service token not issued for this user",
+        403,
+      );
+    }
+    return user;
+  };
+
+  const middleware = (req: Request, _res: Response, next: NextFunction) => {
+    let principal: ServicePrincipal;
+    let user: UserClaims | Promise<UserClaims> | undefined;
+    try {
+      const token = req.header(SERVICE_TOKEN_HEADER);
+      if (!token) {
+        throw unauthorized("Missing service token");
+      }
+      principal = verifyServiceToken(token, options);
+
+      const hasUserToken = mode !== "ignore" && !!req.headers.authorization;
+      if (!hasUserToken && (mode === "required" || principal.onBehalfOf)) {
+        throw unauthorized("User token required");
+      }
+      if (hasUserToken) {
+        user = verifyUserToken(extractBearerToken(req));
+      }
+    } catch (err) {
+      return next(err);
+    }
+
+    if (user instanceof Promise) {
+      return user
+        .then((resolved) => bindUser(principal, resolved))
+        .then(
+          (bound) => {
+            req.user = bound;
+            req.service = principal;
+            next();
+          },
+          (err: unknown) => next(err),
+        );
+    }
+
+    try {
+      if (user) req.user = bindUser(principal, user);
+    } catch (err) {
+      return next(err);
+    }
+    req.service = principal;
+    next();
+  };
+
+  return declareGuard(middleware, {
+    kind: "authentication",
+    requirement: "service",
+  });
+};
+
+export const authenticateService = createServiceAuthenticator();
@@ -3,54 +3,469 @@ import { NextFunction, Request, Response } from "express";
 import { AppError } from "../errors/AppError";
 import { ErrorCode } from "../types/api";
 import { UserClaims } from "../types/user";
+import { recordAuthorizationDecision } from "../utils/audit";
+import { updateCurrentContext } from "../utils/context";
+import { hasPermission } from "../utils/permissions";
+import { getEffectivePermissions, RoleRegistry } from "../utils/roles";
+import { declareGuard } from "../utils/routeManifest";
+import {
+  hasTenantStatusProvider,
+  resolveTenantStatus,
+  TenantStatus,
+} from "../utils/tenantStatus";
 
-const requireUserTenant = (req: Request): UserClaims => {
+// Errors already audited where they were thrown (act-as, membership) are
+// skipped by the outer guard so one decision yields one deny event.
+const auditedErrors = new WeakSet<object>();
+
+const auditDeny = (
+  req: Request,
+  requirement: string,
+  err: unknown,
+  details?: unknown,
+) => {
+  if (typeof err === "object" && err !== null) {
+    if (auditedErrors.has(err)) return;
+    auditedErrors.add(err);
+  }
+  recordAuthorizationDecision(req, {
+    check: "tenant",
+    outcome: "deny",
+    requirement,
+    reason: err instanceof Error ? err.message : undefined,
+    details,
+  });
+};
+
+const auditAllow = (req: Request, requirement: string) =>
+  recordAuthorizationDecision(req, {
+    check: "tenant",
+    outcome: "allow",
+    requirement,
+  });
+
+export const TENANT_HEADER = "X-Tenant-Id";
+export const ACT_AS_TENANT_HEADER = "X-Act-As-Tenant";
+export const ACT_AS_TENANT_PERMISSION = "platform:tenant:act-as";
+export const TENANT_STATUS_BYPASS_PERMISSION = "platform:tenant:status-bypass";
+
+export interface TenantGuardOptions {
+  tenantHeader?: string;
+  tenantParam?: string;
+  actAsHeader?: string;
+  actAsPermission?: string;
+  statusBypassPermission?: string;
+  roles?: RoleRegistry;
+}
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+const resolveActAsTenant = (
+  req: Request,
+  user: UserClaims,
+  options: TenantGuardOptions,
+): string | undefined => {
+  const header = (options.actAsHeader ?? ACT_AS_TENANT_HEADER).toLowerCase();
+  const requested = req.headers?.[header];
+  if (requested === undefined || requested === user.tenantId) {
+    return undefined;
+  }
+
+  const permission = options.actAsPermission ?? ACT_AS_TENANT_PERMISSION;
+  const details = { realTenantId: user.tenantId, effectiveTenantId: requested };
+  if (typeof requested !== "string" || !requested.trim()) {
+    throw new AppError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid ${options.actAsHeader ?? ACT_AS_TENANT_HEADER} header`,
+      400,
+    );
+  }
+  const effective = {
+    permissions: getEffectivePermissions(user, options.roles),
+  };
+  if (!hasPermission(effective, permission)) {
+    const err = new AppError(
+      ErrorCode.FORBIDDEN,
+      "Cross-tenant access not permitted",
+      403,
+    );
+    auditDeny(req, "act-as-tenant", err, details);
+    throw err;
+  }
+
+  console.warn("[Tenant] Cross-tenant access", {
+    userId: user.userId,
+    ...details,
+  });
+  recordAuthorizationDecision(req, {
+    check: "tenant",
+    outcome: "allow",
+    requirement: "act-as-tenant",
+    reason: `Granted by ${permission}`,
+    details,
+  });
+  return requested;
+};
+
+const readRequestedTenant = (
+  req: Request,
+  options: TenantGuardOptions,
+): unknown => {
+  const header = (options.tenantHeader ?? TENANT_HEADER).toLowerCase();
+  const fromHeader = req.headers?.[header];
+  const fromParam = options.tenantParam
+    ? req.params?.[options.tenantParam]
+    : undefined;
+  if (
+    fromHeader !== undefined &&
+    fromParam !== undefined &&
+    fromHeader !== fromParam
+  ) {
+    throw new AppError(ErrorCode.FORBIDDEN, "Tenant mismatch", 403);
+  }
+  return fromParam ?? fromHeader;
+};
+
+const resolveMembership = (
+  req: Request,
+  user: UserClaims,
+  options: TenantGuardOptions,
+): string => {
+  const requested = readRequestedTenant(req, options);
+  if (requested === undefined || requested === user.tenantId) {
+    return user.tenantId;
+  }
+
+  const membership =
+    typeof requested === "string"
+      ? user.memberships?.find((candidate) => candidate.tenantId === requested)
+      : undefined;
+  if (!membership) {
+    const err = new AppError(
+      ErrorCode.FORBIDDEN,
+      "Not a member of this tenant",
+      403,
+    );
+    auditDeny(req, "tenant membership", err, { requestedTenantId: requested });
+    throw err;
+  }
+  req.membership = membership;
+  return membership.tenantId;
+};
+
+// Resolves the effective tenant once per request; later tenant checks reuse
+// it so an operator acting as another tenant is matched against that tenant.
+// A later guard still checks the header and path parameter it names against
+// the resolved tenant, so a route param cannot point at another tenant.
+const resolveTenant = (
+  req: Request,
+  options: TenantGuardOptions = {},
+): string => {
   const user = req.user as UserClaims | undefined;
   if (!user?.tenantId) {
     throw new AppError(ErrorCode.UNAUTHORIZED, "Tenant context required", 401);
   }
-  req.tenantId = user.tenantId;
-  return user;
+  if (req.realTenantId === user.tenantId && req.tenantId) {
+    const requested = readRequestedTenant(req, options);
+    if (requested !== undefined && requested !== req.tenantId) {
+      throw new AppError(ErrorCode.FORBIDDEN, "Tenant mismatch", 403);
+    }
+    return req.tenantId;
+  }
+
+  const tenantId =
+    resolveActAsTenant(req, user, options) ??
+    resolveMembership(req, user, options);
+  req.realTenantId = user.tenantId;
+  req.tenantId = tenantId;
+  updateCurrentContext({ user, tenantId });
+  return tenantId;
 };
 
-export const requireTenant = (
+// Suspended tenants are rejected outright; read-only tenants may only read.
+// Operators holding the bypass permission are let through and logged.
+const checkTenantStatus = (
   req: Request,
-  _res: Response,
-  next: NextFunction,
+  status: TenantStatus,
+  options: TenantGuardOptions,
 ) => {
-  try {
-    requireUserTenant(req);
-    next();
-  } catch (err) {
-    next(err);
+  const readOnly = status === "read-only";
+  if (
+    status === "active" ||
+    (readOnly && READ_METHODS.includes((req.method ?? "").toUpperCase()))
+  ) {
+    return;
   }
-};
 
-export const enforceTenantOnBody = (fieldName = "tenantId") => {
-  return (req: Request, _res: Response, next: NextFunction) => {
-    try {
-      const user = requireUserTenant(req);
-      const body = (req.body ?? {}) as Record<string, unknown>;
-      const incomingTenant = body[fieldName] as string | undefined;
+  const user = req.user as UserClaims;
+  const permission =
+    options.statusBypassPermission ?? TENANT_STATUS_BYPASS_PERMISSION;
+  const effective = {
+    permissions: getEffectivePermissions(user, options.roles),
+  };
+  if (hasPermission(effective, permission)) {
+    console.warn("[Tenant] Tenant status bypassed", {
+      userId: user.userId,
+      tenantId: req.tenantId,
+      status,
+    });
+    recordAuthorizationDecision(req, {
+      check: "tenant",
+      outcome: "allow",
+      requirement: "tenant status",
+      details: { status, bypass: permission },
+    });
+    return;
+  }
+
+  const err = readOnly
+    ? new AppError(ErrorCode.TENANT_READ_ONLY, "Tenant is read-only", 403)
+    : new AppError(ErrorCode.TENANT_SUSPENDED, "Tenant is suspended", 403);
+  auditDeny(req, "tenant status", err, { status });
+  throw err;
+};
 
-      if (incomingTenant && incomingTenant !== user.tenantId) {
-        throw new AppError(ErrorCode.FORBIDDEN, "Tenant mismatch", 403);
+export const createTenantGuard = (options: TenantGuardOptions = {}) =>
+  declareGuard(
+    (req: Request, _res: Response, next: NextFunction) => {
+      let tenantId: string;
+      try {
+        tenantId = resolveTenant(req, options);
+      } catch (err) {
+        auditDeny(req, "tenant context", err);
+        return next(err);
       }
+      if (!hasTenantStatusProvider()) {
+        auditAllow(req, "tenant context");
+        return next();
+      }
+
+      return resolveTenantStatus(tenantId)
+        .then((status) => checkTenantStatus(req, status, options))
+        .then(
+          () => {
+            auditAllow(req, "tenant context");
+            next();
+          },
+          (err: unknown) => next(err),
+        );
+    },
+    { kind: "tenant", requirement: "tenant context" },
+  );
+
+export const requireTenant = createTenantGuard();
+
+export type TenantLocation = "body" | "params" | "query";
+
+export interface TenantEnforcementOptions {
+  body?: string | string[];
+  params?: string | string[];
+  query?: string | string[];
+  fillMissing?: boolean;
+}
+
+export interface TenantMismatch {
+  location: TenantLocation;
+  path: string;
+  value: unknown;
+}
+
+interface PathSegment {
+  key: string;
+  each: boolean;
+}
+
+interface TenantField {
+  location: TenantLocation;
+  path: string;
+  parent: Record<string, unknown>;
+  key: string;
+}
+
+const PATH_PATTERN = /^(\[\]\.)?[\w$-]+(\[\])?(\.[\w$-]+(\[\])?)*$/;
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+
+const toList = (value: string | string[] | undefined) =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
 
-      body[fieldName] = user.tenantId;
-      req.body = body;
-      next();
+const parseBodyPath = (path: string): PathSegment[] => {
+  const segments = path.split(".").map((part) => ({
+    key: part.replace(/\[\]$/, ""),
+    each: part.endsWith("[]"),
+  }));
+  const last = segments[segments.length - 1];
+  if (
+    !PATH_PATTERN.test(path) ||
+    last.each ||
+    segments.some((segment) => UNSAFE_KEYS.includes(segment.key))
+  ) {
+    throw new Error(`Invalid tenant path: ${JSON.stringify(path)}`);
+  }
+  return segments;
+};
+
+const shapeMismatch = (path: string) =>
+  new AppError(
+    ErrorCode.VALIDATION_ERROR,
+    "Request body does not match tenant path",
+    400,
+    { path },
+  );
+
+// Collects every object field a body path points at, descending into arrays
+// marked with []; a top-level array body applies each path to every item.
+// Missing values and non-record array items are skipped, but a value of the
+// wrong shape on the path itself (an object where [] expects an array, a
+// scalar where an object is expected) is rejected so the path cannot silently
+// check nothing.
+const collectBodyFields = (
+  node: unknown,
+  segments: PathSegment[],
+  bodyPath: string,
+  trail: string,
+  fields: TenantField[],
+) => {
+  if (node === undefined || node === null) return;
+  const [segment, ...rest] = segments;
+  if (!trail && (Array.isArray(node) || !segment.key)) {
+    if (!Array.isArray(node)) throw shapeMismatch(bodyPath);
+    const next = segment.key ? segments : rest;
+    node.forEach((item, index) =>
+      collectBodyFields(item, next, bodyPath, `[${index}].`, fields),
+    );
+    return;
+  }
+  if (!isRecord(node)) return;
+
+  const path = `${trail}${segment.key}`;
+  if (!rest.length) {
+    fields.push({ location: "body", path, parent: node, key: segment.key });
+    return;
+  }
+  const child = node[segment.key];
+  if (segment.each) {
+    if (child === undefined || child === null) return;
+    if (!Array.isArray(child)) throw shapeMismatch(bodyPath);
+    child.forEach((item, index) =>
+      collectBodyFields(item, rest, bodyPath, `${path}[${index}].`, fields),
+    );
+    return;
+  }
+  if (child !== undefined && child !== null && !isRecord(child)) {
+    throw shapeMismatch(bodyPath);
+  }
+  collectBodyFields(child, rest, bodyPath, `${path}.`, fields);
+};
+
+const matchesTenant = (value: unknown, tenantId: string) =>
+  Array.isArray(value)
+    ? value.every((item) => item === tenantId)
+    : !value || value === tenantId;
+
+export const enforceTenant = (options: TenantEnforcementOptions) => {
+  const bodyPaths = toList(options.body).map((path) => ({
+    path,
+    segments: parseBodyPath(path),
+  }));
+  const params = toList(options.params);
+  const query = toList(options.query);
+  const fillMissing = options.fillMissing ?? true;
+  if (!bodyPaths.length && !params.length && !query.length) {
+    throw new Error("At least one tenant location is required");
+  }
+
+  const requirement = [
+    ...bodyPaths.map(({ path }) => `body.${path}`),
+    ...params.map((name) => `params.${name}`),
+    ...query.map((name) => `query.${name}`),
+  ].join(", ");
+
+  const middleware = (req: Request, _res: Response, next: NextFunction) => {
+    let tenantId: string;
+    try {
+      tenantId = resolveTenant(req);
     } catch (err) {
-      next(err);
+      auditDeny(req, requirement, err);
+      return next(err);
     }
+
+    const body: unknown =
+      req.body ??
+      (bodyPaths.length ? ({} as Record<string, unknown>) : undefined);
+    const fields: TenantField[] = [];
+    try {
+      bodyPaths.forEach(({ path, segments }) =>
+        collectBodyFields(body, segments, path, "", fields),
+      );
+    } catch (err) {
+      auditDeny(req, requirement, err);
+      return next(err);
+    }
+    const sources = { params: req.params ?? {}, query: req.query ?? {} };
+    params.forEach((name) =>
+      fields.push({
+        location: "params",
+        path: name,
+        parent: sources.params,
+        key: name,
+      }),
+    );
+    query.forEach((name) =>
+      fields.push({
+        location: "query",
+        path: name,
+        parent: sources.query as Record<string, unknown>,
+        key: name,
+      }),
+    );
+
+    const mismatches: TenantMismatch[] = fields
+      .filter((field) => !matchesTenant(field.parent[field.key], tenantId))
+      .map(({ location, path, parent, key }) => ({
+        location,
+        path,
+        value: parent[key],
+      }));
+    if (mismatches.length) {
+      const err = new AppError(ErrorCode.FORBIDDEN, "Tenant mismatch", 403, {
+        mismatches,
+      });
+      auditDeny(req, requirement, err, { mismatches });
+      return next(err);
+    }
+
+    if (fillMissing) {
+      fields
+        .filter((field) => field.location === "body")
+        .forEach((field) => {
+          field.parent[field.key] = tenantId;
+        });
+    }
+    if (bodyPaths.length) req.body = body;
+    auditAllow(req, requirement);
+    next();
   };
+
+  return declareGuard(middleware, { kind: "tenant", requirement });
 };
 
+export const enforceTenantOnBody = (fieldName = "tenantId") =>
+  enforceTenant({ body: fieldName });
+
 export const assertTenantMatch = (req: Request, targetTenantId?: string) => {
-  const user = requireUserTenant(req);
-  const effectiveTenant = targetTenantId ?? req.tenantId;
+  try {
+    const tenantId = resolveTenant(req);
+    const effectiveTenant = targetTenantId ?? tenantId;
 
-  if (effectiveTenant && effectiveTenant !== user.tenantId) {
-    throw new AppError(ErrorCode.FORBIDDEN, "Tenant mismatch", 403);
+    if (effectiveTenant && effectiveTenant !== tenantId) {
+      throw new AppError(ErrorCode.FORBIDDEN, "Tenant mismatch", 403);
+    }
+  } catch (err) {
+    auditDeny(req, "tenant match", err, { targetTenantId });
+    throw err;
   }
+  auditAllow(req, "tenant match");
 };
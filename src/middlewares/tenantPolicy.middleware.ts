@@ -0,0 +1,48 @@
+import { NextFunction, Request, Response } from "express";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+import { recordAuthorizationDecision } from "../utils/audit";
+import { declareGuard } from "../utils/routeManifest";
+import { getTenantPolicy, hasTenantFeature } from "../utils/tenantPolicy";
+
+export const requireTenantFeature = (feature: string) => {
+  if (!feature) {
+    throw new Error("Feature flag is required");
+  }
+  const requirement = `feature:${feature}`;
+
+  const middleware = (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.tenantId && !req.user?.tenantId) {
+      return next(
+        new AppError(ErrorCode.UNAUTHORIZED, "Tenant context required", 401),
+      );
+    }
+
+    return getTenantPolicy(req).then(
+      (policy) => {
+        const allowed = hasTenantFeature(policy, feature);
+        recordAuthorizationDecision(req, {
+          check: "tenant",
+          outcome: allowed ? "allow" : "deny",
+          requirement,
+          reason: allowed ? undefined : "Feature not enabled for tenant",
+        });
+        if (!allowed) {
+          return next(
+            new AppError(
+              ErrorCode.FORBIDDEN,
+              "Feature not enabled for tenant",
+              403,
+              { feature },
+            ),
+          );
+        }
+        return next();
+      },
+      (err: unknown) => next(err),
+    );
+  };
+
+  return declareGuard(middleware, { kind: "feature", requirement });
+};
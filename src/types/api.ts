@@ -4,6 +4,8 @@ export enum ErrorCode {
   FORBIDDEN = "FORBIDDEN",
   NOT_FOUND = "NOT_FOUND",
   CONFLICT = "CONFLICT",
+  TENANT_SUSPENDED = "TENANT_SUSPENDED",
+  TENANT_READ_ONLY = "TENANT_READ_ONLY",
   INTERNAL_ERROR = "INTERNAL_ERROR",
 }
 
@@ -21,6 +23,18 @@ export interface ErrorResponse {
   details?: unknown;
 }
 
+// RFC 7807 problem details; code, traceId and details are extension members.
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  code: ErrorCode;
+  traceId?: string;
+  details?: unknown;
+}
+
 export interface PaginationMeta {
   total: number;
   totalPages: number;
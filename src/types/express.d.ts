@@ -1,10 +1,18 @@
 import "express";
-import { UserClaims } from "./user";
+import { ResolvedTenantPolicy } from "../utils/tenantPolicy";
+
+import { ServicePrincipal } from "./service";
+import { TenantMembership, UserClaims } from "./user";
 
 declare module "express-serve-static-core" {
   interface Request {
     user?: UserClaims;
+    service?: ServicePrincipal;
     tenantId?: string;
+    realTenantId?: string;
+    membership?: TenantMembership;
+    tenantPolicy?: ResolvedTenantPolicy;
     correlationId?: string;
+    resource?: unknown;
   }
 }
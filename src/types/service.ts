@@ -0,0 +1,6 @@
+export interface ServicePrincipal {
+  serviceId: string;
+  permissions?: string[];
+  onBehalfOf?: string;
+  tokenId?: string;
+}
@@ -1,3 +1,9 @@
+export interface TenantMembership {
+  tenantId: string;
+  role?: string;
+  permissions?: string[];
+}
+
 export interface UserClaims {
   userId: string;
   tenantId: string;
@@ -5,4 +11,5 @@ export interface UserClaims {
   roleId?: string;
   permissions?: string[];
   email?: string;
+  memberships?: TenantMembership[];
 }
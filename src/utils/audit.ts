@@ -0,0 +1,117 @@
+import { createWriteStream } from "fs";
+
+import { Request } from "express";
+
+export type AuditOutcome = "allow" | "deny";
+
+export type AuditCheck = "permission" | "policy" | "tenant" | "ownership";
+
+export interface AuthorizationAuditEvent {
+  type: "authorization";
+  timestamp: string;
+  outcome: AuditOutcome;
+  check: AuditCheck;
+  requirement: string;
+  reason?: string;
+  userId?: string;
+  serviceId?: string;
+  tenantId?: string;
+  realTenantId?: string;
+  method: string;
+  route: string;
+  correlationId?: string;
+  details?: unknown;
+}
+
+export interface AuthorizationDecisionInput {
+  check: AuditCheck;
+  outcome: AuditOutcome;
+  requirement: string;
+  reason?: string;
+  details?: unknown;
+}
+
+export type AuditSink = (
+  event: AuthorizationAuditEvent,
+) => void | Promise<void>;
+
+export interface FileAuditSink extends AuditSink {
+  close: () => Promise<void>;
+}
+
+let sinks: AuditSink[] = [];
+
+export const addAuditSink = (sink: AuditSink): (() => void) => {
+  sinks.push(sink);
+  return () => {
+    sinks = sinks.filter((candidate) => candidate !== sink);
+  };
+};
+
+export const clearAuditSinks = (): void => {
+  sinks = [];
+};
+
+export const emitAuditEvent = (event: AuthorizationAuditEvent): void => {
+  for (const sink of sinks) {
+    try {
+      const result = sink(event);
+      if (result instanceof Promise) {
+        result.catch((err: unknown) =>
+          console.error("[Audit] Sink failed", err),
+        );
+      }
+    } catch (err) {
+      console.error("[Audit] Sink failed", err);
+    }
+  }
+};
+
+const routeOf = (req: Request) => {
+  const pattern = (req.route as { path?: unknown } | undefined)?.path;
+  return typeof pattern === "string"
+    ? `${req.baseUrl ?? ""}${pattern}`
+    : (req.originalUrl ?? req.path ?? "").split("?")[0];
+};
+
+export const recordAuthorizationDecision = (
+  req: Request,
+  decision: AuthorizationDecisionInput,
+): void => {
+  if (!sinks.length) return;
+
+  const tenantId = req.tenantId ?? req.user?.tenantId;
+  emitAuditEvent({
+    type: "authorization",
+    timestamp: new Date().toISOString(),
+    ...decision,
+    userId: req.user?.userId,
+    serviceId: req.service?.serviceId,
+    tenantId,
+    realTenantId:
+      req.realTenantId && req.realTenantId !== tenantId
+        ? req.realTenantId
+        : undefined,
+    method: req.method,
+    route: routeOf(req),
+    correlationId: req.correlationId,
+  });
+};
+
+export const stdoutAuditSink: AuditSink = (event) => {
+  process.stdout.write(`${JSON.stringify(event)}\n`);
+};
+
+export const createFileAuditSink = (path: string): FileAuditSink => {
+  const stream = createWriteStream(path, { flags: "a" });
+  stream.on("error", (err) => console.error("[Audit] File sink error", err));
+
+  const sink = ((event: AuthorizationAuditEvent) => {
+    stream.write(`${JSON.stringify(event)}\n`);
+  }) as FileAuditSink;
+  sink.close = () =>
+    new Promise<void>((resolve) => {
+      stream.end(resolve);
+    });
+  return sink;
+};
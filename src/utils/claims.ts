@@ -0,0 +1,81 @@
+import Joi from "joi";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+import { UserClaims } from "../types/user";
+
+export type TokenPayload = Record<string, unknown>;
+
+export type ClaimsMapper = (payload: TokenPayload) => unknown;
+
+export interface ClaimNames {
+  userId?: string;
+  tenantId?: string;
+  role?: string;
+  roleId?: string;
+  permissions?: string;
+  email?: string;
+  memberships?: string;
+}
+
+export const userClaimsSchema = Joi.object<UserClaims>({
+  userId: Joi.string().min(1).required(),
+  tenantId: Joi.string().min(1).required(),
+  role: Joi.string(),
+  roleId: Joi.string(),
+  permissions: Joi.array().items(Joi.string()),
+  email: Joi.string(),
+  memberships: Joi.array().items(
+    Joi.object({
+      tenantId: Joi.string().min(1).required(),
+      role: Joi.string(),
+      permissions: Joi.array().items(Joi.string()),
+    }),
+  ),
+});
+
+const toPermissions = (value: unknown): unknown => {
+  if (typeof value === "string") {
+    return value.split(" ").filter(Boolean);
+  }
+  return value;
+};
+
+export const createClaimsMapper = (names: ClaimNames): ClaimsMapper => {
+  return (payload) => {
+    const claim = (key: keyof ClaimNames) => payload[names[key] ?? key];
+
+    return {
+      userId: claim("userId"),
+      tenantId: claim("tenantId"),
+      role: claim("role"),
+      roleId: claim("roleId"),
+      permissions: names.permissions
+        ? toPermissions(claim("permissions"))
+        : claim("permissions"),
+      email: claim("email"),
+      memberships: claim("memberships"),
+    };
+  };
+};
+
+export const standardClaimsMapper = createClaimsMapper({
+  userId: "sub",
+  tenantId: "tid",
+  permissions: "scope",
+});
+
+export const validateUserClaims = (
+  payload: TokenPayload,
+  mapper?: ClaimsMapper,
+): UserClaims => {
+  const mapped = mapper ? mapper(payload) : payload;
+  const { error, value } = userClaimsSchema.validate(mapped, {
+    stripUnknown: true,
+  });
+
+  if (error) {
+    throw new AppError(ErrorCode.UNAUTHORIZED, "Invalid token claims", 401);
+  }
+  return value;
+};
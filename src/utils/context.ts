@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+import { UserClaims } from "../types/user";
+
+export interface RequestContext {
+  correlationId?: string;
+  user?: UserClaims;
+  tenantId?: string;
+  startTime: number;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const getCurrentContext = (): RequestContext | undefined =>
+  storage.getStore();
+
+export const runWithContext = <T>(
+  context: Partial<RequestContext>,
+  fn: () => T,
+): T => storage.run({ startTime: Date.now(), ...context }, fn);
+
+export const updateCurrentContext = (
+  patch: Partial<Omit<RequestContext, "startTime">>,
+): void => {
+  const context = storage.getStore();
+  if (context) Object.assign(context, patch);
+};
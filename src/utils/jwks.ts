@@ -0,0 +1,199 @@
+import { createPublicKey, JsonWebKey, KeyObject } from "crypto";
+import { readFile } from "fs/promises";
+
+import { AppError } from "../errors/AppError";
+import { httpRequest } from "../http/client";
+import { ErrorCode } from "../types/api";
+
+export type AsymmetricAlgorithm =
+  | "RS256"
+  | "RS384"
+  | "RS512"
+  | "PS256"
+  | "PS384"
+  | "PS512"
+  | "ES256"
+  | "ES384"
+  | "ES512";
+
+export interface Jwk extends JsonWebKey {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+export interface JwksDocument {
+  keys: Jwk[];
+}
+
+export interface JwksOptions {
+  jwksUri?: string;
+  jwksFile?: string;
+  cacheTtlMs?: number;
+  minRefreshIntervalMs?: number;
+  timeout?: number;
+}
+
+export interface JwksKeyResolver {
+  getKey: (kid: string | undefined, alg: string) => Promise<KeyObject>;
+  refresh: () => Promise<void>;
+}
+
+const DEFAULT_CACHE_TTL = 10 * 60 * 1000;
+const DEFAULT_MIN_REFRESH_INTERVAL = 30_000;
+
+const EC_CURVES: Record<string, string> = {
+  ES256: "P-256",
+  ES384: "P-384",
+  ES512: "P-521",
+};
+
+export const ASYMMETRIC_ALGORITHMS: readonly AsymmetricAlgorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+];
+
+export const isAsymmetricAlgorithm = (
+  alg: unknown,
+): alg is AsymmetricAlgorithm =>
+  ASYMMETRIC_ALGORITHMS.includes(alg as AsymmetricAlgorithm);
+
+export const isJwkCompatible = (jwk: Jwk, alg: string): boolean => {
+  if (!isAsymmetricAlgorithm(alg)) return false;
+  if (jwk.use && jwk.use !== "sig") return false;
+  if (jwk.alg && jwk.alg !== alg) return false;
+
+  if (alg.startsWith("ES")) {
+    return jwk.kty === "EC" && jwk.crv === EC_CURVES[alg];
+  }
+  return jwk.kty === "RSA";
+};
+
+const unknownKey = () =>
+  new AppError(ErrorCode.UNAUTHORIZED, "Unknown signing key", 401);
+
+const unavailable = (err: unknown) =>
+  new AppError(ErrorCode.INTERNAL_ERROR, "Signing keys unavailable", 503, {
+    reason: err instanceof Error ? err.message : String(err),
+  });
+
+export const createJwksKeyResolver = (
+  options: JwksOptions,
+): JwksKeyResolver => {
+  const { jwksUri, jwksFile } = options;
+  if (!jwksUri && !jwksFile) {
+    throw new Error("JWKS source required: set jwksUri or jwksFile");
+  }
+
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL;
+  const minRefreshIntervalMs =
+    options.minRefreshIntervalMs ?? DEFAULT_MIN_REFRESH_INTERVAL;
+
+  let keys: Jwk[] = [];
+  let fetchedAt = 0;
+  let attemptedAt = 0;
+  let inFlight: Promise<void> | null = null;
+  const keyObjects = new Map<Jwk, KeyObject>();
+
+  const load = async (): Promise<JwksDocument> => {
+    if (jwksFile) {
+      return JSON.parse(await readFile(jwksFile, "utf8")) as JwksDocument;
+    }
+    // The fetch runs inside the authenticating request; never forward the
+    // caller's token or correlation ID to the identity provider.
+    const response = await httpRequest<JwksDocument>("GET", jwksUri!, {
+      retries: 0,
+      timeout: options.timeout,
+      propagateAuth: false,
+      propagateCorrelationId: false,
+    });
+    return response.data;
+  };
+
+  const refresh = (): Promise<void> => {
+    if (!inFlight) {
+      inFlight = load()
+        .then((doc) => {
+          if (!Array.isArray(doc?.keys)) {
+            throw new Error("Malformed JWKS document");
+          }
+          keys = doc.keys;
+          keyObjects.clear();
+          fetchedAt = Date.now();
+        })
+        .catch((err: unknown) => {
+          if (!keys.length) {
+            throw unavailable(err);
+          }
+        })
+        .finally(() => {
+          attemptedAt = Date.now();
+          inFlight = null;
+        });
+    }
+    return inFlight;
+  };
+
+  const select = (kid: string | undefined, alg: string): Jwk | undefined => {
+    if (kid) {
+      return keys.find((jwk) => jwk.kid === kid && isJwkCompatible(jwk, alg));
+    }
+    const candidates = keys.filter((jwk) => isJwkCompatible(jwk, alg));
+    return candidates.length === 1 ? candidates[0] : undefined;
+  };
+
+  const toKeyObject = (jwk: Jwk): KeyObject => {
+    let keyObject = keyObjects.get(jwk);
+    if (!keyObject) {
+      keyObject = createPublicKey({ key: jwk, format: "jwk" });
+      keyObjects.set(jwk, keyObject);
+    }
+    return keyObject;
+  };
+
+  const getKey = async (
+    kid: string | undefined,
+    alg: string,
+  ): Promise<KeyObject> => {
+    if (!isAsymmetricAlgorithm(alg)) {
+      throw unknownKey();
+    }
+
+    const canRefresh = () => Date.now() - attemptedAt >= minRefreshIntervalMs;
+
+    // The throttle also applies with an empty cache, so an unreachable JWKS
+    // endpoint is not fetched again for every incoming request.
+    if (!fetchedAt || Date.now() - fetchedAt >= cacheTtlMs) {
+      if (canRefresh()) {
+        await refresh();
+      } else if (!keys.length) {
+        throw unavailable(new Error("JWKS refresh throttled"));
+      }
+    }
+
+    let jwk = select(kid, alg);
+    if (!jwk && kid && canRefresh()) {
+      await refresh();
+      jwk = select(kid, alg);
+    }
+    if (!jwk) {
+      throw unknownKey();
+    }
+
+    try {
+      return toKeyObject(jwk);
+    } catch {
+      throw unknownKey();
+    }
+  };
+
+  return { getKey, refresh };
+};
@@ -0,0 +1,134 @@
+import { readFileSync } from "fs";
+
+export interface SigningKey {
+  kid?: string;
+  secret: string;
+  deprecated?: boolean;
+  notAfter?: number;
+}
+
+export interface DeprecatedKeyEvent {
+  kid?: string;
+  notAfter?: number;
+}
+
+export interface Keyring {
+  keys: SigningKey[];
+  onDeprecatedKey?: (event: DeprecatedKeyEvent) => void;
+}
+
+export interface KeyringOptions {
+  onDeprecatedKey?: (event: DeprecatedKeyEvent) => void;
+}
+
+interface KeyringFileEntry {
+  kid?: string;
+  secret: string;
+  deprecated?: boolean;
+  notAfter?: string | number;
+}
+
+const toTimestamp = (value: unknown, source: string): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const ts = typeof value === "number" ? value : Date.parse(String(value));
+  if (!Number.isFinite(ts)) {
+    throw new Error(`Invalid notAfter in ${source}`);
+  }
+  return ts;
+};
+
+export const createKeyring = (
+  keys: SigningKey[],
+  options: KeyringOptions = {},
+): Keyring => {
+  if (!keys.some((key) => !key.deprecated)) {
+    throw new Error("Keyring requires at least one current key");
+  }
+  if (keys.some((key) => !key.secret)) {
+    throw new Error("Keyring entries require a secret");
+  }
+  const kids = keys.map((key) => key.kid).filter(Boolean);
+  if (new Set(kids).size !== kids.length) {
+    throw new Error("Keyring kids must be unique");
+  }
+
+  return { keys, onDeprecatedKey: options.onDeprecatedKey };
+};
+
+export const selectSigningKeys = (
+  keyring: Keyring,
+  kid?: string,
+  now = Date.now(),
+): SigningKey[] => {
+  const active = keyring.keys.filter(
+    (key) => key.notAfter === undefined || key.notAfter > now,
+  );
+  if (kid && active.some((key) => key.kid)) {
+    return active.filter((key) => key.kid === kid);
+  }
+  return [
+    ...active.filter((key) => !key.deprecated),
+    ...active.filter((key) => key.deprecated),
+  ];
+};
+
+export const getCurrentSigningKey = (keyring: Keyring): SigningKey =>
+  keyring.keys.find((key) => !key.deprecated)!;
+
+export const recordSigningKeyUsage = (keyring: Keyring, key: SigningKey) => {
+  if (!key.deprecated) return;
+
+  const event: DeprecatedKeyEvent = { kid: key.kid, notAfter: key.notAfter };
+  console.warn("[Keyring] Token verified with deprecated signing key", event);
+  keyring.onDeprecatedKey?.(event);
+};
+
+export const loadKeyringFromEnv = (
+  prefix = "JWT",
+  options: KeyringOptions = {},
+): Keyring => {
+  const current = process.env[`${prefix}_SECRET`];
+  if (!current) {
+    throw new Error(`Missing environment variable: ${prefix}_SECRET`);
+  }
+
+  const keys: SigningKey[] = [
+    { kid: process.env[`${prefix}_SECRET_KID`] || undefined, secret: current },
+  ];
+
+  const previous = process.env[`${prefix}_PREVIOUS_SECRET`];
+  if (previous) {
+    keys.push({
+      kid: process.env[`${prefix}_PREVIOUS_SECRET_KID`] || undefined,
+      secret: previous,
+      deprecated: true,
+      notAfter: toTimestamp(
+        process.env[`${prefix}_PREVIOUS_SECRET_NOT_AFTER`],
+        `${prefix}_PREVIOUS_SECRET_NOT_AFTER`,
+      ),
+    });
+  }
+
+  return createKeyring(keys, options);
+};
+
+export const loadKeyringFromFile = (
+  path: string,
+  options: KeyringOptions = {},
+): Keyring => {
+  const parsed = JSON.parse(readFileSync(path, "utf8")) as {
+    keys?: KeyringFileEntry[];
+  };
+  if (!Array.isArray(parsed?.keys)) {
+    throw new Error(`Malformed keyring file: ${path}`);
+  }
+
+  const keys = parsed.keys.map((entry) => ({
+    kid: entry.kid,
+    secret: entry.secret,
+    deprecated: entry.deprecated ?? false,
+    notAfter: toTimestamp(entry.notAfter, path),
+  }));
+
+  return createKeyring(keys, options);
+};
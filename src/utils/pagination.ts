@@ -1,3 +1,7 @@
+import { Request } from "express";
+
+import { getTenantPolicy } from "./tenantPolicy";
+
 export type SortOrder = "asc" | "desc";
 
 export interface PaginationParams {
@@ -9,6 +13,12 @@ export interface PaginationParams {
   order?: SortOrder;
 }
 
+export interface PaginationDefaults {
+  page?: number;
+  pageSize?: number;
+  maxPageSize?: number;
+}
+
 const toPositiveInt = (value: unknown, defaultValue: number): number => {
   const num = Number(value);
   if (!Number.isFinite(num) || num <= 0) return defaultValue;
@@ -17,7 +27,7 @@ const toPositiveInt = (value: unknown, defaultValue: number): number => {
 
 export const parsePagination = (
   query: Record<string, unknown>,
-  defaults: { page?: number; pageSize?: number; maxPageSize?: number } = {},
+  defaults: PaginationDefaults = {},
 ): PaginationParams => {
   const page = Math.max(1, toPositiveInt(query.page, defaults.page ?? 1));
   const maxPageSize = defaults.maxPageSize ?? 200;
@@ -42,3 +52,15 @@ export const parsePagination = (
     order,
   };
 };
+
+// The tenant's plan limit replaces the static maxPageSize when one is set.
+export const parseTenantPagination = async (
+  req: Request,
+  defaults: PaginationDefaults = {},
+): Promise<PaginationParams> => {
+  const policy = await getTenantPolicy(req);
+  return parsePagination(req.query as Record<string, unknown>, {
+    ...defaults,
+    maxPageSize: policy.maxPageSize ?? defaults.maxPageSize,
+  });
+};
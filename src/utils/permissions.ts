@@ -0,0 +1,167 @@
+import { UserClaims } from "../types/user";
+
+export const PERMISSION_SEPARATOR = ":";
+export const PERMISSION_WILDCARD = "*";
+
+const splitPermission = (permission: string): string[] =>
+  permission.split(PERMISSION_SEPARATOR);
+
+export const isValidPermission = (permission: unknown): permission is string =>
+  typeof permission === "string" &&
+  permission.length > 0 &&
+  splitPermission(permission).every(
+    (segment) =>
+      segment.length > 0 &&
+      (segment === PERMISSION_WILDCARD ||
+        !segment.includes(PERMISSION_WILDCARD)),
+  );
+
+export const matchesPermission = (grant: string, required: string): boolean => {
+  if (!isValidPermission(grant) || !isValidPermission(required)) return false;
+  if (grant === required) return true;
+
+  const grantSegments = splitPermission(grant);
+  const requiredSegments = splitPermission(required);
+
+  for (let i = 0; i < grantSegments.length; i++) {
+    const segment = grantSegments[i];
+    const isLast = i === grantSegments.length - 1;
+
+    if (segment === PERMISSION_WILDCARD) {
+      if (isLast) return requiredSegments.length > i;
+      if (i >= requiredSegments.length) return false;
+      continue;
+    }
+    if (segment !== requiredSegments[i]) return false;
+  }
+
+  return grantSegments.length === requiredSegments.length;
+};
+
+export const hasPermission = (
+  user: Pick<UserClaims, "permissions"> | undefined,
+  permission: string,
+): boolean =>
+  (user?.permissions ?? []).some((grant) =>
+    matchesPermission(grant, permission),
+  );
+
+export type PermissionExpression =
+  | string
+  | { all: PermissionExpression[] }
+  | { any: PermissionExpression[] }
+  | { not: PermissionExpression };
+
+export interface PermissionEvaluation {
+  granted: boolean;
+  missing: string[];
+  forbidden: string[];
+}
+
+interface PermissionReason {
+  permission: string;
+  held: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const assertPermissionExpression: (
+  expression: unknown,
+  path?: string,
+) => asserts expression is PermissionExpression = (expression, path = "$") => {
+  if (typeof expression === "string") {
+    if (!isValidPermission(expression)) {
+      throw new Error(
+        `Invalid permission at ${path}: ${JSON.stringify(expression)}`,
+      );
+    }
+    return;
+  }
+
+  const keys = isObject(expression) ? Object.keys(expression) : [];
+  if (!isObject(expression) || keys.length !== 1) {
+    throw new Error(
+      `Invalid permission expression at ${path}: expected a permission or one of all/any/not`,
+    );
+  }
+
+  const [operator] = keys;
+  const operand = expression[operator];
+  if (operator === "not") {
+    assertPermissionExpression(operand, `${path}.not`);
+    return;
+  }
+  if (operator !== "all" && operator !== "any") {
+    throw new Error(
+      `Invalid permission expression at ${path}: unknown operator "${operator}"`,
+    );
+  }
+  if (!Array.isArray(operand) || !operand.length) {
+    throw new Error(
+      `Invalid permission expression at ${path}.${operator}: expected a non-empty array`,
+    );
+  }
+  operand.forEach((child, index) =>
+    assertPermissionExpression(child, `${path}.${operator}[${index}]`),
+  );
+};
+
+const evaluate = (
+  user: Pick<UserClaims, "permissions"> | undefined,
+  expression: PermissionExpression,
+): { granted: boolean; reasons: PermissionReason[] } => {
+  if (typeof expression === "string") {
+    const held = hasPermission(user, expression);
+    return { granted: held, reasons: [{ permission: expression, held }] };
+  }
+  if ("not" in expression) {
+    const inner = evaluate(user, expression.not);
+    return { granted: !inner.granted, reasons: inner.reasons };
+  }
+
+  const isAll = "all" in expression;
+  const results = (isAll ? expression.all : expression.any).map((child) =>
+    evaluate(user, child),
+  );
+  const granted = isAll
+    ? results.every((result) => result.granted)
+    : results.some((result) => result.granted);
+  // The children that decided the outcome: failing ones for a denied all(),
+  // the first passing one for a granted any().
+  const relevant = results.filter((result) => result.granted === granted);
+  return {
+    granted,
+    reasons: (granted && !isAll ? relevant.slice(0, 1) : relevant).flatMap(
+      (result) => result.reasons,
+    ),
+  };
+};
+
+const unique = (values: string[]) => [...new Set(values)];
+
+export const evaluatePermissionExpression = (
+  user: Pick<UserClaims, "permissions"> | undefined,
+  expression: PermissionExpression,
+): PermissionEvaluation => {
+  const { granted, reasons } = evaluate(user, expression);
+  if (granted) return { granted, missing: [], forbidden: [] };
+  return {
+    granted,
+    missing: unique(reasons.filter((r) => !r.held).map((r) => r.permission)),
+    forbidden: unique(reasons.filter((r) => r.held).map((r) => r.permission)),
+  };
+};
+
+export const listExpressionPermissions = (
+  expression: PermissionExpression,
+): string[] => {
+  if (typeof expression === "string") return [expression];
+  const children =
+    "not" in expression
+      ? [expression.not]
+      : "all" in expression
+        ? expression.all
+        : expression.any;
+  return [...new Set(children.flatMap(listExpressionPermissions))];
+};
@@ -0,0 +1,136 @@
+import { UserClaims } from "../types/user";
+
+export type PolicyEffect = "allow" | "deny";
+
+export interface PolicyEnvironment {
+  time: Date;
+  ip?: string;
+}
+
+export interface PolicyContext<R = unknown> {
+  subject: UserClaims;
+  action: string;
+  resource?: R;
+  environment: PolicyEnvironment;
+}
+
+export interface PolicyRule<R = unknown> {
+  description: string;
+  effect?: PolicyEffect;
+  when(context: PolicyContext<R>): boolean;
+}
+
+export interface Policy<R = unknown> {
+  name: string;
+  description?: string;
+  rules: PolicyRule<R>[];
+}
+
+export interface PolicyRuleResult {
+  description: string;
+  effect: PolicyEffect;
+  matched: boolean;
+  error?: string;
+}
+
+export interface PolicyDecision {
+  policy: string;
+  action: string;
+  allowed: boolean;
+  reason: string;
+  rules: PolicyRuleResult[];
+}
+
+export interface PolicyRegistry {
+  get: (name: string) => Policy | undefined;
+  names: () => string[];
+}
+
+let defaultRegistry: PolicyRegistry | undefined;
+
+export const definePolicy = <R = unknown>(policy: Policy<R>): Policy<R> => {
+  if (!policy.name) {
+    throw new Error("Policy name is required");
+  }
+  if (!policy.rules?.length) {
+    throw new Error(`Policy "${policy.name}" has no rules`);
+  }
+  policy.rules.forEach((rule, index) => {
+    if (!rule.description || typeof rule.when !== "function") {
+      throw new Error(
+        `Policy "${policy.name}" rule ${index} needs a description and a when() predicate`,
+      );
+    }
+  });
+  return policy;
+};
+
+// Deny overrides allow; a request no rule allows is denied. A predicate that
+// throws counts as matched for deny rules and unmatched for allow rules.
+export const evaluatePolicy = <R>(
+  policy: Policy<R>,
+  context: PolicyContext<R>,
+): PolicyDecision => {
+  const rules = policy.rules.map((rule): PolicyRuleResult => {
+    const effect = rule.effect ?? "allow";
+    try {
+      return {
+        description: rule.description,
+        effect,
+        matched: rule.when(context) === true,
+      };
+    } catch (err) {
+      console.error(`[Policy] Rule failed in "${policy.name}"`, err);
+      return {
+        description: rule.description,
+        effect,
+        matched: effect === "deny",
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  });
+
+  const deny = rules.find((rule) => rule.effect === "deny" && rule.matched);
+  const allow = rules.find((rule) => rule.effect === "allow" && rule.matched);
+  const reason = deny
+    ? `Denied by rule: ${deny.description}`
+    : allow
+      ? `Allowed by rule: ${allow.description}`
+      : "No rule allowed the request";
+
+  return {
+    policy: policy.name,
+    action: context.action,
+    allowed: !deny && !!allow,
+    reason,
+    rules,
+  };
+};
+
+export const createPolicyRegistry = (policies: Policy[]): PolicyRegistry => {
+  const byName = new Map<string, Policy>();
+  for (const policy of policies) {
+    definePolicy(policy);
+    if (byName.has(policy.name)) {
+      throw new Error(`Duplicate policy name: ${policy.name}`);
+    }
+    byName.set(policy.name, policy);
+  }
+
+  return {
+    get: (name) => byName.get(name),
+    names: () => [...byName.keys()],
+  };
+};
+
+export const registerPolicies = (policies: Policy[]): PolicyRegistry => {
+  defaultRegistry = createPolicyRegistry(policies);
+  return defaultRegistry;
+};
+
+export const getPolicyRegistry = (): PolicyRegistry | undefined =>
+  defaultRegistry;
+
+export const clearPolicyRegistry = (): void => {
+  defaultRegistry = undefined;
+};
@@ -0,0 +1,86 @@
+export interface RevocationCheck {
+  jti?: string;
+  userId: string;
+  tenantId: string;
+  // Tenants the token also reaches through memberships; revoking any of them
+  // revokes the token.
+  membershipTenantIds?: string[];
+  issuedAt?: number;
+}
+
+export interface RevocationStore {
+  isTokenRevoked: (jti: string) => Promise<boolean>;
+  getUserRevokedBefore: (
+    tenantId: string,
+    userId: string,
+  ) => Promise<number | undefined>;
+  getTenantRevokedBefore: (tenantId: string) => Promise<number | undefined>;
+}
+
+export interface MemoryRevocationStore extends RevocationStore {
+  revokeToken: (jti: string, expiresAt?: number) => void;
+  revokeUser: (tenantId: string, userId: string, before?: number) => void;
+  revokeTenant: (tenantId: string, before?: number) => void;
+  clear: () => void;
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+export const createMemoryRevocationStore = (): MemoryRevocationStore => {
+  const tokens = new Map<string, number>();
+  const users = new Map<string, number>();
+  const tenants = new Map<string, number>();
+
+  const userKey = (tenantId: string, userId: string) => `${tenantId}:${userId}`;
+
+  return {
+    revokeToken: (jti, expiresAt = Number.POSITIVE_INFINITY) => {
+      tokens.set(jti, expiresAt);
+    },
+    revokeUser: (tenantId, userId, before = nowSeconds()) => {
+      users.set(userKey(tenantId, userId), before);
+    },
+    revokeTenant: (tenantId, before = nowSeconds()) => {
+      tenants.set(tenantId, before);
+    },
+    clear: () => {
+      tokens.clear();
+      users.clear();
+      tenants.clear();
+    },
+    isTokenRevoked: async (jti) => {
+      const expiresAt = tokens.get(jti);
+      if (expiresAt === undefined) return false;
+      if (expiresAt <= nowSeconds()) {
+        tokens.delete(jti);
+        return false;
+      }
+      return true;
+    },
+    getUserRevokedBefore: async (tenantId, userId) =>
+      users.get(userKey(tenantId, userId)),
+    getTenantRevokedBefore: async (tenantId) => tenants.get(tenantId),
+  };
+};
+
+export const isRevoked = async (
+  store: RevocationStore,
+  check: RevocationCheck,
+): Promise<boolean> => {
+  if (check.jti && (await store.isTokenRevoked(check.jti))) {
+    return true;
+  }
+
+  const tenantIds = [
+    ...new Set([check.tenantId, ...(check.membershipTenantIds ?? [])]),
+  ];
+  const cutoffs = await Promise.all(
+    tenantIds.flatMap((tenantId) => [
+      store.getUserRevokedBefore(tenantId, check.userId),
+      store.getTenantRevokedBefore(tenantId),
+    ]),
+  );
+  const issuedAt = check.issuedAt ?? 0;
+
+  return cutoffs.some((before) => before !== undefined && issuedAt <= before);
+};
@@ -0,0 +1,91 @@
+import { UserClaims } from "../types/user";
+
+import { isValidPermission } from "./permissions";
+
+export interface RoleDefinition {
+  permissions?: string[];
+  inherits?: string[];
+}
+
+export type RoleDefinitions = Record<string, RoleDefinition>;
+
+export interface RoleRegistry {
+  has: (role: string) => boolean;
+  roles: () => string[];
+  resolve: (role: string) => string[];
+}
+
+let defaultRegistry: RoleRegistry | undefined;
+
+export const createRoleRegistry = (
+  definitions: RoleDefinitions,
+): RoleRegistry => {
+  const expanded = new Map<string, string[]>();
+
+  const expand = (role: string, chain: string[]): string[] => {
+    const cached = expanded.get(role);
+    if (cached) return cached;
+
+    if (chain.includes(role)) {
+      throw new Error(
+        `Circular role inheritance: ${[...chain, role].join(" -> ")}`,
+      );
+    }
+    const definition = Object.prototype.hasOwnProperty.call(definitions, role)
+      ? definitions[role]
+      : undefined;
+    if (!definition) {
+      throw new Error(
+        `Unknown role "${role}" inherited by "${chain[chain.length - 1]}"`,
+      );
+    }
+
+    const permissions = definition.permissions ?? [];
+    const invalid = permissions.find((perm) => !isValidPermission(perm));
+    if (invalid !== undefined) {
+      throw new Error(
+        `Invalid permission in role "${role}": ${JSON.stringify(invalid)}`,
+      );
+    }
+
+    const grants = new Set(permissions);
+    for (const parent of definition.inherits ?? []) {
+      expand(parent, [...chain, role]).forEach((perm) => grants.add(perm));
+    }
+    const result = [...grants];
+    expanded.set(role, result);
+    return result;
+  };
+
+  Object.keys(definitions).forEach((role) => expand(role, []));
+
+  return {
+    has: (role) => expanded.has(role),
+    roles: () => [...expanded.keys()],
+    resolve: (role) => [...(expanded.get(role) ?? [])],
+  };
+};
+
+export const registerRoles = (definitions: RoleDefinitions): RoleRegistry => {
+  defaultRegistry = createRoleRegistry(definitions);
+  return defaultRegistry;
+};
+
+export const getRoleRegistry = (): RoleRegistry | undefined => defaultRegistry;
+
+export const clearRoleRegistry = (): void => {
+  defaultRegistry = undefined;
+};
+
+export const getEffectivePermissions = (
+  user: Pick<UserClaims, "role" | "roleId" | "permissions"> | undefined,
+  registry: RoleRegistry | undefined = defaultRegistry,
+): string[] => {
+  const grants = new Set(user?.permissions ?? []);
+  if (registry) {
+    for (const role of [user?.role, user?.roleId]) {
+      if (role) registry.resolve(role).forEach((perm) => grants.add(perm));
+    }
+  }
+  return [...grants];
+};
@@ -0,0 +1,183 @@
+import { Application, Router } from "express";
+
+export type GuardKind =
+  | "authentication"
+  | "permission"
+  | "policy"
+  | "ownership"
+  | "tenant"
+  | "feature";
+
+export interface GuardDeclaration {
+  kind: GuardKind;
+  requirement: string;
+  permissions?: string[];
+}
+
+export interface RouteManifestEntry {
+  method: string;
+  path: string;
+  guards: GuardDeclaration[];
+  permissions: string[];
+  authenticated: boolean;
+  tenantEnforced: boolean;
+}
+
+export interface UnguardedRouteOptions {
+  guards?: GuardKind[];
+  ignore?: string[];
+}
+
+interface ExpressLayer {
+  handle: unknown;
+  regexp?: RegExp & { fast_slash?: boolean };
+  keys?: { name: string | number }[];
+  method?: string;
+  route?: {
+    path: string | RegExp;
+    methods: Record<string, boolean>;
+    stack: ExpressLayer[];
+  };
+}
+
+interface ScopedGuard {
+  mountPath: string;
+  declaration: GuardDeclaration;
+}
+
+const GUARD_DECLARATION = Symbol.for("primeqa.guardDeclaration");
+const AUTHORIZATION_GUARDS: GuardKind[] = ["permission", "policy", "ownership"];
+
+const declaredPermissions = new Set<string>();
+
+export const declareGuard = <T extends object>(
+  handler: T,
+  declaration: GuardDeclaration,
+): T => {
+  declaration.permissions?.forEach((perm) => declaredPermissions.add(perm));
+  Object.defineProperty(handler, GUARD_DECLARATION, { value: declaration });
+  return handler;
+};
+
+export const getGuardDeclaration = (
+  handler: unknown,
+): GuardDeclaration | undefined =>
+  typeof handler === "function"
+    ? (handler as unknown as Record<symbol, GuardDeclaration | undefined>)[
+        GUARD_DECLARATION
+      ]
+    : undefined;
+
+export const getDeclaredPermissions = (): string[] =>
+  [...declaredPermissions].sort();
+
+export const clearDeclaredPermissions = (): void => {
+  declaredPermissions.clear();
+};
+
+// Express 4 keeps only the compiled regexp for mounted routers and
+// middleware; rebuild the mount path from it and the parameter keys.
+const mountPathOf = (layer: ExpressLayer): string => {
+  if (!layer.regexp || layer.regexp.fast_slash) return "";
+  const keys = [...(layer.keys ?? [])];
+  const path = layer.regexp.source
+    .replace(/^\^/, "")
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, "")
+    .replace(/\(\?:\\\/\(\[\^\/\]\+\?\)\)/g, () => `/:${keys.shift()?.name}`)
+    .replace(/\\(.)/g, "$1");
+  return path === "/" ? "" : path;
+};
+
+const joinPath = (prefix: string, path: string) =>
+  (prefix && path === "/" ? prefix : `${prefix}${path}`) || "/";
+
+const appliesTo = (mountPath: string, path: string) =>
+  !mountPath || path === mountPath || path.startsWith(`${mountPath}/`);
+
+const stackOf = (handle: unknown): ExpressLayer[] | undefined => {
+  const stack = (handle as { stack?: unknown } | undefined)?.stack;
+  return Array.isArray(stack) ? (stack as ExpressLayer[]) : undefined;
+};
+
+const collectRoutes = (
+  stack: ExpressLayer[],
+  prefix: string,
+  inherited: GuardDeclaration[],
+  entries: RouteManifestEntry[],
+) => {
+  const scoped: ScopedGuard[] = [];
+
+  for (const layer of stack) {
+    const guardsFor = (path: string) => [
+      ...inherited,
+      ...scoped
+        .filter((guard) => appliesTo(guard.mountPath, path))
+        .map((guard) => guard.declaration),
+    ];
+
+    if (layer.route) {
+      const routePath = String(layer.route.path);
+      const routeStack = layer.route.stack;
+      for (const method of Object.keys(layer.route.methods)) {
+        const guards = [
+          ...guardsFor(routePath),
+          ...routeStack
+            .filter((handler) => !handler.method || handler.method === method)
+            .map((handler) => getGuardDeclaration(handler.handle))
+            .filter((guard): guard is GuardDeclaration => !!guard),
+        ];
+        entries.push({
+          method: method === "_all" ? "ALL" : method.toUpperCase(),
+          path: joinPath(prefix, routePath),
+          guards,
+          permissions: [
+            ...new Set(
+              guards
+                .filter((guard) => guard.kind === "permission")
+                .flatMap((guard) => guard.permissions ?? []),
+            ),
+          ],
+          authenticated: guards.some(
+            (guard) => guard.kind === "authentication",
+          ),
+          tenantEnforced: guards.some((guard) => guard.kind === "tenant"),
+        });
+      }
+      continue;
+    }
+
+    const mountPath = mountPathOf(layer);
+    const nested = stackOf(layer.handle);
+    if (nested) {
+      collectRoutes(nested, prefix + mountPath, guardsFor(mountPath), entries);
+      continue;
+    }
+
+    const declaration = getGuardDeclaration(layer.handle);
+    if (declaration) scoped.push({ mountPath, declaration });
+  }
+};
+
+export const buildRouteManifest = (
+  app: Application | Router,
+): RouteManifestEntry[] => {
+  const stack =
+    stackOf((app as unknown as { _router?: unknown })._router) ?? stackOf(app);
+  const entries: RouteManifestEntry[] = [];
+  collectRoutes(stack ?? [], "", [], entries);
+  return entries;
+};
+
+export const findUnguardedRoutes = (
+  manifest: RouteManifestEntry[],
+  options: UnguardedRouteOptions = {},
+): RouteManifestEntry[] => {
+  const kinds = options.guards ?? AUTHORIZATION_GUARDS;
+  const ignore = new Set(options.ignore ?? []);
+  return manifest.filter(
+    (entry) =>
+      !ignore.has(entry.path) &&
+      !ignore.has(`${entry.method} ${entry.path}`) &&
+      !entry.guards.some((guard) => kinds.includes(guard.kind)),
+  );
+};
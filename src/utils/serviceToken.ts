@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto";
+
+import jwt, { JwtPayload, SignOptions, VerifyOptions } from "jsonwebtoken";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+import { ServicePrincipal } from "../types/service";
+
+import {
+  getCurrentSigningKey,
+  Keyring,
+  recordSigningKeyUsage,
+  selectSigningKeys,
+  SigningKey,
+} from "./keyring";
+
+export const SERVICE_TOKEN_HEADER = "X-Service-Token";
+
+const SERVICE_TOKEN_USE = "service";
+const DEFAULT_SERVICE_TOKEN_TTL = 60;
+
+export interface ServiceTokenSigningOptions {
+  service: string;
+  audience?: string | string[];
+  permissions?: string[];
+  onBehalfOf?: string;
+  ttlSeconds?: number;
+  secret?: string;
+  keyring?: Keyring;
+}
+
+export interface ServiceTokenVerifyOptions {
+  secret?: string | (() => string | undefined);
+  keyring?: Keyring;
+  audience?: string | string[];
+  allowedServices?: string[];
+  clockTolerance?: number;
+}
+
+const invalidServiceToken = () =>
+  new AppError(ErrorCode.UNAUTHORIZED, "Invalid service token", 401);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+export const signServiceToken = (
+  options: ServiceTokenSigningOptions,
+): string => {
+  const key: SigningKey = options.keyring
+    ? getCurrentSigningKey(options.keyring)
+    : { secret: options.secret ?? process.env.SERVICE_JWT_SECRET ?? "" };
+  if (!key.secret) {
+    throw new Error("Missing environment variable: SERVICE_JWT_SECRET");
+  }
+
+  const signOptions: SignOptions = {
+    algorithm: "HS256",
+    subject: options.service,
+    expiresIn: options.ttlSeconds ?? DEFAULT_SERVICE_TOKEN_TTL,
+    jwtid: randomUUID(),
+  };
+  if (options.audience) signOptions.audience = options.audience;
+  if (key.kid) signOptions.keyid = key.kid;
+
+  return jwt.sign(
+    {
+      token_use: SERVICE_TOKEN_USE,
+      permissions: options.permissions,
+      obo: options.onBehalfOf,
+    },
+    key.secret,
+    signOptions,
+  );
+};
+
+export const verifyServiceToken = (
+  token: string,
+  options: ServiceTokenVerifyOptions = {},
+): ServicePrincipal => {
+  let keys: SigningKey[];
+  if (options.keyring) {
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    keys = selectSigningKeys(options.keyring, kid);
+  } else {
+    const secret =
+      typeof options.secret === "function"
+        ? options.secret()
+        : (options.secret ?? process.env.SERVICE_JWT_SECRET);
+    if (!secret) {
+      throw new AppError(
+        ErrorCode.INTERNAL_ERROR,
+        "Authentication not configured",
+        500,
+      );
+    }
+    keys = [{ secret }];
+  }
+
+  const verifyOptions: VerifyOptions = {
+    algorithms: ["HS256"],
+    audience: options.audience as VerifyOptions["audience"],
+    clockTolerance: options.clockTolerance,
+  };
+
+  let payload: JwtPayload | undefined;
+  for (const key of keys) {
+    try {
+      payload = jwt.verify(token, key.secret, verifyOptions) as JwtPayload;
+    } catch {
+      continue;
+    }
+    if (options.keyring) recordSigningKeyUsage(options.keyring, key);
+    break;
+  }
+
+  if (
+    !payload ||
+    payload.token_use !== SERVICE_TOKEN_USE ||
+    typeof payload.sub !== "string" ||
+    !payload.sub ||
+    payload.exp === undefined ||
+    (payload.permissions !== undefined &&
+      !isStringArray(payload.permissions)) ||
+    (payload.obo !== undefined && typeof payload.obo !== "string") ||
+    // A token minted for no particular service must not pass a verifier that
+    // expects one, whatever the JWT library does with a missing aud.
+    (options.audience !== undefined && payload.aud === undefined)
+  ) {
+    throw invalidServiceToken();
+  }
+
+  if (
+    options.allowedServices &&
+    !options.allowedServices.includes(payload.sub)
+  ) {
+    throw new AppError(ErrorCode.FORBIDDEN, "Service not allowed", 403);
+  }
+
+  return {
+    serviceId: payload.sub,
+    permissions: payload.permissions,
+    onBehalfOf: payload.obo,
+    tokenId: payload.jti,
+  };
+};
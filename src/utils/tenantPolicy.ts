@@ -0,0 +1,105 @@
+import { Request } from "express";
+
+export interface TenantRateLimitPolicy {
+  max?: number;
+  windowMs?: number;
+}
+
+export interface TenantPolicy {
+  maxPageSize?: number;
+  rateLimit?: TenantRateLimitPolicy;
+  features?: string[];
+}
+
+export interface ResolvedTenantPolicy {
+  tenantId: string;
+  policy: TenantPolicy;
+}
+
+export type TenantPolicyResolver = (
+  tenantId: string,
+) => Promise<TenantPolicy | null | undefined>;
+
+export interface TenantPolicyResolverOptions {
+  cacheTtlMs?: number;
+  fallback?: TenantPolicy;
+}
+
+type CacheEntry = {
+  policy: Promise<TenantPolicy>;
+  expiresAt: number;
+};
+
+const DEFAULT_CACHE_TTL_MS = 60_000;
+
+// With no resolver, or when it fails, callers fall back to their static
+// options and no tenant feature is enabled.
+const SAFE_DEFAULT: TenantPolicy = {};
+
+let resolver: TenantPolicyResolver | undefined;
+let cacheTtlMs = DEFAULT_CACHE_TTL_MS;
+let fallback: TenantPolicy = SAFE_DEFAULT;
+const cache = new Map<string, CacheEntry>();
+
+export const registerTenantPolicyResolver = (
+  tenantResolver: TenantPolicyResolver,
+  options: TenantPolicyResolverOptions = {},
+): void => {
+  resolver = tenantResolver;
+  cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  fallback = options.fallback ?? SAFE_DEFAULT;
+  cache.clear();
+};
+
+export const clearTenantPolicyResolver = (): void => {
+  resolver = undefined;
+  cacheTtlMs = DEFAULT_CACHE_TTL_MS;
+  fallback = SAFE_DEFAULT;
+  cache.clear();
+};
+
+export const invalidateTenantPolicy = (tenantId?: string): void => {
+  if (tenantId === undefined) cache.clear();
+  else cache.delete(tenantId);
+};
+
+// Failed lookups are not cached so the next request retries the resolver.
+export const resolveTenantPolicy = (
+  tenantId: string,
+): Promise<TenantPolicy> => {
+  if (!resolver) return Promise.resolve(fallback);
+
+  const now = Date.now();
+  const cached = cache.get(tenantId);
+  if (cached && cached.expiresAt > now) return cached.policy;
+
+  const current = resolver;
+  const policy = Promise.resolve()
+    .then(() => current(tenantId))
+    .then(
+      (resolved) => resolved ?? fallback,
+      (err: unknown) => {
+        console.error("[TenantPolicy] Resolver failed", { tenantId, err });
+        if (cache.get(tenantId)?.policy === policy) cache.delete(tenantId);
+        return fallback;
+      },
+    );
+  cache.set(tenantId, { policy, expiresAt: now + cacheTtlMs });
+  return policy;
+};
+
+// Memoized per request and tenant: a policy resolved for the home tenant is
+// not reused after requireTenant switches to a membership or act-as tenant,
+// and nothing is memoized before a tenant is known.
+export const getTenantPolicy = async (req: Request): Promise<TenantPolicy> => {
+  const tenantId = req.tenantId ?? req.user?.tenantId;
+  if (!tenantId) return fallback;
+  if (req.tenantPolicy?.tenantId === tenantId) return req.tenantPolicy.policy;
+
+  const policy = await resolveTenantPolicy(tenantId);
+  req.tenantPolicy = { tenantId, policy };
+  return policy;
+};
+
+export const hasTenantFeature = (policy: TenantPolicy, feature: string) =>
+  policy.features?.includes(feature) ?? false;
@@ -0,0 +1,100 @@
+import { Request } from "express";
+
+import { AppError } from "../errors/AppError";
+import { ErrorCode } from "../types/api";
+
+export interface TenantScopeOptions {
+  field?: string;
+}
+
+export interface SqlTenantScopeOptions {
+  column?: string;
+  placeholder?: "$" | "?";
+  paramIndex?: number;
+}
+
+export interface SqlFragment {
+  text: string;
+  values: string[];
+}
+
+const DEFAULT_FIELD = "tenantId";
+const DEFAULT_COLUMN = "tenant_id";
+const SQL_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+const requireScopedTenant = (req: Request): string => {
+  if (!req.tenantId) {
+    throw new AppError(ErrorCode.UNAUTHORIZED, "Tenant context required", 401);
+  }
+  return req.tenantId;
+};
+
+export const tenantScope = <T extends Record<string, unknown>>(
+  req: Request,
+  filter: T = {} as T,
+  options: TenantScopeOptions = {},
+): T & Record<string, string> => {
+  const tenantId = requireScopedTenant(req);
+  const field = options.field ?? DEFAULT_FIELD;
+  if (filter[field] !== undefined && filter[field] !== tenantId) {
+    throw new AppError(ErrorCode.FORBIDDEN, "Tenant mismatch", 403);
+  }
+  return { ...filter, [field]: tenantId };
+};
+
+// The caller's filter is nested under $and so operators such as $or cannot
+// widen the query beyond the tenant.
+export const mongoTenantScope = (
+  req: Request,
+  filter: Record<string, unknown> = {},
+  options: TenantScopeOptions = {},
+): Record<string, unknown> => {
+  const tenantId = requireScopedTenant(req);
+  const condition = { [options.field ?? DEFAULT_FIELD]: { $eq: tenantId } };
+  return Object.keys(filter).length ? { $and: [condition, filter] } : condition;
+};
+
+export const sqlTenantScope = (
+  req: Request,
+  options: SqlTenantScopeOptions = {},
+): SqlFragment => {
+  const column = options.column ?? DEFAULT_COLUMN;
+  if (!SQL_IDENTIFIER.test(column)) {
+    throw new Error(`Invalid SQL column: ${JSON.stringify(column)}`);
+  }
+  const tenantId = requireScopedTenant(req);
+  const placeholder =
+    options.placeholder === "?" ? "?" : `$${options.paramIndex ?? 1}`;
+  return { text: `${column} = ${placeholder}`, values: [tenantId] };
+};
+
+export const assertTenantResults = <T>(
+  req: Request,
+  data: T,
+  options: TenantScopeOptions = {},
+): T => {
+  const tenantId = requireScopedTenant(req);
+  if (data === null || data === undefined) return data;
+  const field = options.field ?? DEFAULT_FIELD;
+  const records: unknown[] = Array.isArray(data) ? data : [data];
+
+  const leaked = records.findIndex(
+    (record) =>
+      typeof record !== "object" ||
+      record === null ||
+      (record as Record<string, unknown>)[field] !== tenantId,
+  );
+  if (leaked !== -1) {
+    console.error("[TenantScope] Result outside caller tenant", {
+      tenantId,
+      index: leaked,
+      correlationId: req.correlationId,
+    });
+    throw new AppError(
+      ErrorCode.INTERNAL_ERROR,
+      "Tenant isolation violation",
+      500,
+    );
+  }
+  return data;
+};
@@ -0,0 +1,80 @@
+export type TenantStatus = "active" | "read-only" | "suspended";
+
+export type TenantStatusProvider = (tenantId: string) => Promise<TenantStatus>;
+
+export interface TenantStatusProviderOptions {
+  cacheTtlMs?: number;
+  fallback?: TenantStatus;
+}
+
+type CacheEntry = {
+  status: Promise<TenantStatus>;
+  expiresAt: number;
+};
+
+const DEFAULT_CACHE_TTL_MS = 30_000;
+const STATUSES: TenantStatus[] = ["active", "read-only", "suspended"];
+
+let provider: TenantStatusProvider | undefined;
+let cacheTtlMs = DEFAULT_CACHE_TTL_MS;
+let fallback: TenantStatus = "active";
+const cache = new Map<string, CacheEntry>();
+
+export const registerTenantStatusProvider = (
+  statusProvider: TenantStatusProvider,
+  options: TenantStatusProviderOptions = {},
+): void => {
+  if (options.fallback && !STATUSES.includes(options.fallback)) {
+    throw new Error(
+      `Invalid tenant status: ${JSON.stringify(options.fallback)}`,
+    );
+  }
+  provider = statusProvider;
+  cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  fallback = options.fallback ?? "active";
+  cache.clear();
+};
+
+export const clearTenantStatusProvider = (): void => {
+  provider = undefined;
+  cacheTtlMs = DEFAULT_CACHE_TTL_MS;
+  fallback = "active";
+  cache.clear();
+};
+
+export const hasTenantStatusProvider = (): boolean => !!provider;
+
+export const invalidateTenantStatus = (tenantId?: string): void => {
+  if (tenantId === undefined) cache.clear();
+  else cache.delete(tenantId);
+};
+
+// A failed lookup or an unknown status yields the fallback status and is not
+// cached, so the next request asks the provider again.
+export const resolveTenantStatus = (
+  tenantId: string,
+): Promise<TenantStatus> => {
+  if (!provider) return Promise.resolve("active");
+
+  const now = Date.now();
+  const cached = cache.get(tenantId);
+  if (cached && cached.expiresAt > now) return cached.status;
+
+  const current = provider;
+  const failed = (err: unknown) => {
+    console.error("[TenantStatus] Provider failed", { tenantId, err });
+    if (cache.get(tenantId)?.status === status) cache.delete(tenantId);
+    return fallback;
+  };
+  const status: Promise<TenantStatus> = Promise.resolve()
+    .then(() => current(tenantId))
+    .then(
+      (resolved) =>
+        STATUSES.includes(resolved)
+          ? resolved
+          : failed(new Error(`Unknown tenant status: ${String(resolved)}`)),
+      failed,
+    );
+  cache.set(tenantId, { status, expiresAt: now + cacheTtlMs });
+  return status;
+};
@@ -2,8 +2,61 @@ import { Request } from "express";
 
 import { UserClaims } from "../types/user";
 
-export const getUserContext = (req: Request) => {
+import { hasPermission } from "./permissions";
+import { getEffectivePermissions, RoleRegistry } from "./roles";
+
+export interface RequestPermissionOptions {
+  roles?: RoleRegistry;
+}
+
+// With a tenant membership selected by requireTenant, the user's role and
+// permissions are those of the membership rather than the home tenant. An
+// operator acting as another tenant keeps their own grants but is scoped to
+// the effective tenant.
+export const getTenantScopedUser = (req: Request): UserClaims | undefined => {
   const user = req.user as UserClaims | undefined;
+  const membership = req.membership;
+  if (!user) return user;
+  if (!membership) {
+    const { tenantId, realTenantId } = req;
+    const actingAs =
+      tenantId && realTenantId === user.tenantId && realTenantId !== tenantId;
+    return actingAs ? { ...user, tenantId } : user;
+  }
+
+  return {
+    ...user,
+    tenantId: membership.tenantId,
+    role: membership.role,
+    roleId: undefined,
+    permissions: membership.permissions ?? [],
+  };
+};
+
+// The grants permission, ownership and policy checks see: the tenant-scoped
+// user's explicit permissions plus everything their role grants. Controllers
+// should use these rather than hasPermission(req.user, ...) to agree with the
+// middlewares.
+export const getRequestPermissions = (
+  req: Request,
+  options: RequestPermissionOptions = {},
+): string[] => {
+  const user = getTenantScopedUser(req);
+  return user ? getEffectivePermissions(user, options.roles) : [];
+};
+
+export const hasRequestPermission = (
+  req: Request,
+  permission: string,
+  options: RequestPermissionOptions = {},
+): boolean =>
+  hasPermission(
+    { permissions: getRequestPermissions(req, options) },
+    permission,
+  );
+
+export const getUserContext = (req: Request) => {
+  const user = getTenantScopedUser(req);
 
   if (!user?.userId || !user.tenantId) {
     const error = new Error("Unauthorized") as Error & { status?: number };
@@ -6,6 +6,7 @@ import {
   httpRequest,
 } from "../../src/http/client";
 import { ErrorCode } from "../../src/types/api";
+import { runWithContext } from "../../src/utils/context";
 global.fetch = jest.fn();
 
 describe("HTTP Client", () => {
@@ -145,6 +146,88 @@ describe("HTTP Client", () => {
           .headers;
         expect(callHeaders.Authorization).toBeUndefined();
       });
+
+      it("should fall back to the request context for the correlation ID", async () => {
+        (global.fetch as jest.Mock).mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Map([["content-type", "application/json"]]),
+          json: async () => ({}),
+        });
+
+        await runWithContext({ correlationId: "ctx-cid" }, () =>
+          httpRequest("GET", "https://api.example.com/data"),
+        );
+
+        const callHeaders = (global.fetch as jest.Mock).mock.calls[0][1]
+          .headers;
+        expect(callHeaders["X-Correlation-Id"]).toBe("ctx-cid");
+        expect(callHeaders.Authorization).toBeUndefined();
+      });
+
+      it("should prefer an explicit req over the request context", async () => {
+        (global.fetch as jest.Mock).mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Map([["content-type", "application/json"]]),
+          json: async () => ({}),
+        });
+
+        await runWithContext({ correlationId: "ctx-cid" }, () =>
+          httpRequest("GET", "https://api.example.com/data", {
+            req: { correlationId: "req-cid", headers: {} } as Request,
+          }),
+        );
+
+        const callHeaders = (global.fetch as jest.Mock).mock.calls[0][1]
+          .headers;
+        expect(callHeaders["X-Correlation-Id"]).toBe("req-cid");
+        expect(callHeaders.Authorization).toBeUndefined();
+      });
+
+      it("should send a static service token", async () => {
+        (global.fetch as jest.Mock).mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Map([["content-type", "application/json"]]),
+          json: async () => ({}),
+        });
+
+        await httpRequest("GET", "https://api.example.com/data", {
+          serviceToken: "svc-token",
+        });
+
+        const callHeaders = (global.fetch as jest.Mock).mock.calls[0][1]
+          .headers;
+        expect(callHeaders["X-Service-Token"]).toBe("svc-token");
+      });
+
+      it("should mint a service token per request alongside the user token", async () => {
+        const mockReq = {
+          headers: {
+            authorization: "Bearer user-token",
+          },
+        } as Request;
+        const mint = jest.fn().mockResolvedValue("fresh-svc-token");
+
+        (global.fetch as jest.Mock).mockResolvedValue({
+          ok: true,
+          status: 200,
+          headers: new Map([["content-type", "application/json"]]),
+          json: async () => ({}),
+        });
+
+        await httpRequest("GET", "https://api.example.com/data", {
+          req: mockReq,
+          serviceToken: mint,
+        });
+
+        const callHeaders = (global.fetch as jest.Mock).mock.calls[0][1]
+          .headers;
+        expect(mint).toHaveBeenCalledTimes(1);
+        expect(callHeaders["X-Service-Token"]).toBe("fresh-svc-token");
+        expect(callHeaders.Authorization).toBe("Bearer user-token");
+      });
     });
 
     describe("Spec: 503 mapping for failures", () => {
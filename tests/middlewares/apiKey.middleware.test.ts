@@ -0,0 +1,230 @@
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+
+import {
+  ApiKeyRecord,
+  createApiKeyAuthenticator,
+  generateApiKey,
+  hashApiKey,
+} from "../../src/middlewares/apiKey.middleware";
+import { authenticate } from "../../src/middlewares/auth.middleware";
+import { ErrorCode } from "../../src/types/api";
+
+describe("API Key Authentication Middleware", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+  let records: Map<string, ApiKeyRecord>;
+  const { key, hash } = generateApiKey();
+
+  const withHeaders = (headers: Record<string, string>) => {
+    const lower = Object.fromEntries(
+      Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]),
+    );
+    mockRequest = {
+      headers: lower,
+      header: ((name: string) =>
+        lower[name.toLowerCase()]) as Request["header"],
+    };
+  };
+
+  const lookup = jest.fn(async (h: string) => records.get(h));
+
+  const run = async (middleware = createApiKeyAuthenticator({ lookup })) => {
+    await middleware(
+      mockRequest as Request,
+      mockResponse as Response,
+      nextFunction,
+    );
+  };
+
+  beforeEach(() => {
+    records = new Map([
+      [
+        hash,
+        {
+          keyId: "ci-runner",
+          tenantId: "tenant-1",
+          permissions: ["results:write"],
+        },
+      ],
+    ]);
+    lookup.mockClear();
+    withHeaders({});
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    nextFunction = jest.fn();
+  });
+
+  describe("hashApiKey() / generateApiKey()", () => {
+    it("should hash keys with sha256", () => {
+      expect(hashApiKey("abc")).toBe(
+        "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+      );
+    });
+
+    it("should generate prefixed keys with matching hashes", () => {
+      const generated = generateApiKey("ci");
+
+      expect(generated.key).toMatch(/^ci_[A-Za-z0-9_-]{43}$/);
+      expect(generated.hash).toBe(hashApiKey(generated.key));
+    });
+  });
+
+  it("should reject requests without an API key", async () => {
+    await run();
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 401,
+        code: ErrorCode.UNAUTHORIZED,
+        message: "Missing API key",
+      }),
+    );
+  });
+
+  it("should look keys up by hash and map them to a principal", async () => {
+    withHeaders({ "X-API-Key": key });
+
+    await run();
+
+    expect(lookup).toHaveBeenCalledWith(hash);
+    expect(lookup).not.toHaveBeenCalledWith(key);
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockRequest.user).toEqual({
+      userId: "apikey:ci-runner",
+      tenantId: "tenant-1",
+      permissions: ["results:write"],
+    });
+  });
+
+  it("should use the owning userId when the key has one", async () => {
+    records.get(hash)!.userId = "user-9";
+    withHeaders({ "X-API-Key": key });
+
+    await run();
+
+    expect(mockRequest.user?.userId).toBe("user-9");
+  });
+
+  it("should read a custom header and hash function", async () => {
+    const customHash = (k: string) => `h:${k}`;
+    records.set("h:custom", { keyId: "c", tenantId: "tenant-2" });
+    withHeaders({ "X-Results-Key": "custom" });
+
+    await run(
+      createApiKeyAuthenticator({
+        lookup,
+        header: "X-Results-Key",
+        hash: customHash,
+      }),
+    );
+
+    expect(mockRequest.user?.tenantId).toBe("tenant-2");
+  });
+
+  it.each([
+    ["unknown", { "X-API-Key": "pqa_unknown" }],
+    ["empty", { "X-API-Key": "" }],
+    ["oversized", { "X-API-Key": "a".repeat(1000) }],
+  ])("should reject %s keys", async (_label, headers) => {
+    withHeaders(headers);
+
+    await run();
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 401, message: "Invalid API key" }),
+    );
+    expect(mockRequest.user).toBeUndefined();
+  });
+
+  it("should reject revoked keys", async () => {
+    records.get(hash)!.revoked = true;
+    withHeaders({ "X-API-Key": key });
+
+    await run();
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Invalid API key" }),
+    );
+  });
+
+  it("should reject expired keys", async () => {
+    records.get(hash)!.expiresAt = new Date(Date.now() - 1000);
+    withHeaders({ "X-API-Key": key });
+
+    await run();
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Invalid API key" }),
+    );
+  });
+
+  it("should reject records that do not form valid claims", async () => {
+    records.get(hash)!.tenantId = "";
+    withHeaders({ "X-API-Key": key });
+
+    await run();
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 401, message: "Invalid API key" }),
+    );
+  });
+
+  it("should return 503 when the lookup fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    withHeaders({ "X-API-Key": key });
+
+    await run(
+      createApiKeyAuthenticator({
+        lookup: () => Promise.reject(new Error("db down")),
+      }),
+    );
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 503,
+        code: ErrorCode.INTERNAL_ERROR,
+      }),
+    );
+    jest.restoreAllMocks();
+  });
+
+  describe("JWT or API key", () => {
+    const jwtOrApiKey = createApiKeyAuthenticator({
+      lookup,
+      fallback: authenticate,
+    });
+
+    it("should authenticate with the API key when present", async () => {
+      withHeaders({ "X-API-Key": key });
+
+      await run(jwtOrApiKey);
+
+      expect(mockRequest.user?.userId).toBe("apikey:ci-runner");
+    });
+
+    it("should fall back to the bearer token when no API key is sent", async () => {
+      const token = jwt.sign(
+        { userId: "user-1", tenantId: "tenant-1" },
+        process.env.JWT_SECRET!,
+      );
+      withHeaders({ Authorization: `Bearer ${token}` });
+
+      await run(jwtOrApiKey);
+
+      expect(lookup).not.toHaveBeenCalled();
+      expect(mockRequest.user?.userId).toBe("user-1");
+    });
+
+    it("should fail with the fallback's error when neither is sent", async () => {
+      await run(jwtOrApiKey);
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Missing Authorization header" }),
+      );
+    });
+  });
+});
@@ -1,7 +1,25 @@
-import { Request, Response, NextFunction } from "express";
+import { generateKeyPairSync } from "crypto";
+import { Server } from "http";
+import { AddressInfo } from "net";
+
+import express, { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 
-import { authenticate } from "../../src/middlewares/auth.middleware";
+import {
+  authenticate,
+  createAuthenticator,
+  createJwksAuthenticator,
+  createOptionalAuthenticator,
+  optionalAuthenticate,
+} from "../../src/middlewares/auth.middleware";
+import { ErrorCode } from "../../src/types/api";
+import { standardClaimsMapper } from "../../src/utils/claims";
+import { createKeyring, Keyring } from "../../src/utils/keyring";
+import {
+  createMemoryRevocationStore,
+  MemoryRevocationStore,
+  RevocationStore,
+} from "../../src/utils/revocation";
 import { UserClaims } from "../../src/types/user";
 
 describe("Authentication Middleware", () => {
@@ -29,11 +47,13 @@ describe("Authentication Middleware", () => {
         nextFunction,
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({
-        message: "Missing Authorization header",
-      });
-      expect(nextFunction).not.toHaveBeenCalled();
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Missing Authorization header",
+        }),
+      );
     });
   });
 
@@ -47,11 +67,13 @@ describe("Authentication Middleware", () => {
         nextFunction,
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({
-        message: "Invalid authorization scheme",
-      });
-      expect(nextFunction).not.toHaveBeenCalled();
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Invalid authorization scheme",
+        }),
+      );
     });
   });
 
@@ -65,11 +87,13 @@ describe("Authentication Middleware", () => {
         nextFunction,
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({
-        message: "Missing token",
-      });
-      expect(nextFunction).not.toHaveBeenCalled();
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Missing token",
+        }),
+      );
     });
 
     it("should return 401 when only Bearer is present", () => {
@@ -81,8 +105,9 @@ describe("Authentication Middleware", () => {
         nextFunction,
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(nextFunction).not.toHaveBeenCalled();
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
     });
   });
 
@@ -96,11 +121,13 @@ describe("Authentication Middleware", () => {
         nextFunction,
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({
-        message: "Invalid or expired token",
-      });
-      expect(nextFunction).not.toHaveBeenCalled();
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Invalid or expired token",
+        }),
+      );
     });
 
     it("should return 401 for expired token", () => {
@@ -117,11 +144,13 @@ describe("Authentication Middleware", () => {
         nextFunction,
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({
-        message: "Invalid or expired token",
-      });
-      expect(nextFunction).not.toHaveBeenCalled();
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Invalid or expired token",
+        }),
+      );
     });
   });
 
@@ -190,11 +219,12 @@ describe("Authentication Middleware", () => {
         nextFunction,
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      const jsonCall = (mockResponse.json as jest.Mock).mock.calls[0][0];
-      expect(jsonCall.message).toBe("Invalid or expired token");
-      expect(jsonCall.message).not.toContain("jwt");
-      expect(jsonCall.message).not.toContain("signature");
+      const error = (nextFunction as jest.Mock).mock.calls[0][0];
+      expect(error.status).toBe(401);
+      expect(error.message).toBe("Invalid or expired token");
+      expect(error.message).not.toContain("jwt");
+      expect(error.message).not.toContain("signature");
+      expect(error.details).toBeUndefined();
     });
   });
 
@@ -249,11 +279,13 @@ describe("Authentication Middleware", () => {
         nextFunction,
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(500);
-      expect(mockResponse.json).toHaveBeenCalledWith({
-        message: "Authentication not configured",
-      });
-      expect(nextFunction).not.toHaveBeenCalled();
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 500,
+          code: ErrorCode.INTERNAL_ERROR,
+          message: "Authentication not configured",
+        }),
+      );
 
       process.env.JWT_SECRET = originalSecret;
     });
@@ -278,4 +310,696 @@ describe("Authentication Middleware", () => {
       expect(nextFunction).toHaveBeenCalledWith();
     });
   });
+
+  describe("createAuthenticator()", () => {
+    const run = (
+      middleware: ReturnType<typeof createAuthenticator>,
+      token: string,
+    ) => {
+      mockRequest.headers = { authorization: `Bearer ${token}` };
+      middleware(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+    };
+
+    const expectUnauthorized = () => {
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Invalid or expired token",
+        }),
+      );
+      expect(mockRequest.user).toBeUndefined();
+    };
+
+    it("should reject algorithm sets that mix key types", () => {
+      expect(() => createAuthenticator({ algorithms: ["RS256"] })).toThrow(
+        "HMAC algorithms only",
+      );
+      expect(() =>
+        createAuthenticator({
+          jwks: { jwksUri: "http://localhost/jwks" },
+          algorithms: ["HS256"],
+        }),
+      ).toThrow("asymmetric algorithms only");
+      expect(() => createAuthenticator({ algorithms: [] })).toThrow(
+        "At least one algorithm",
+      );
+    });
+
+    it("should use an explicit secret over JWT_SECRET", () => {
+      const middleware = createAuthenticator({ secret: "service-secret" });
+
+      run(middleware, jwt.sign({ userId: "1", tenantId: "t" }, JWT_SECRET));
+      expectUnauthorized();
+
+      nextFunction = jest.fn();
+      run(
+        middleware,
+        jwt.sign({ userId: "1", tenantId: "t" }, "service-secret"),
+      );
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should resolve secret getters on every request", () => {
+      let current = "first";
+      const middleware = createAuthenticator({ secret: () => current });
+
+      current = "second";
+      run(middleware, jwt.sign({ userId: "1", tenantId: "t" }, "second"));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should enforce accepted issuers", () => {
+      const middleware = createAuthenticator({
+        issuer: ["https://auth.primeqa.io", "https://sso.primeqa.io"],
+      });
+
+      run(
+        middleware,
+        jwt.sign({ userId: "1", tenantId: "t" }, JWT_SECRET, {
+          issuer: "evil",
+        }),
+      );
+      expectUnauthorized();
+
+      nextFunction = jest.fn();
+      run(
+        middleware,
+        jwt.sign({ userId: "1", tenantId: "t" }, JWT_SECRET, {
+          issuer: "https://sso.primeqa.io",
+        }),
+      );
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should enforce accepted audiences", () => {
+      const middleware = createAuthenticator({ audience: "results-service" });
+
+      run(
+        middleware,
+        jwt.sign({ userId: "1", tenantId: "t" }, JWT_SECRET, {
+          audience: "user-service",
+        }),
+      );
+      expectUnauthorized();
+
+      nextFunction = jest.fn();
+      run(
+        middleware,
+        jwt.sign({ userId: "1", tenantId: "t" }, JWT_SECRET, {
+          audience: ["user-service", "results-service"],
+        }),
+      );
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should reject tokens older than maxTokenAge", () => {
+      const middleware = createAuthenticator({ maxTokenAge: "1h" });
+      const iat = Math.floor(Date.now() / 1000) - 2 * 3600;
+
+      run(
+        middleware,
+        jwt.sign({ userId: "1", tenantId: "t", iat }, JWT_SECRET),
+      );
+
+      expectUnauthorized();
+    });
+
+    it("should require exp when requireExp is set", () => {
+      const middleware = createAuthenticator({ requireExp: true });
+
+      run(middleware, jwt.sign({ userId: "1", tenantId: "t" }, JWT_SECRET));
+      expectUnauthorized();
+
+      nextFunction = jest.fn();
+      run(
+        middleware,
+        jwt.sign({ userId: "1", tenantId: "t" }, JWT_SECRET, {
+          expiresIn: "5m",
+        }),
+      );
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should require configured claims", () => {
+      const middleware = createAuthenticator({
+        requiredClaims: ["sid"],
+      });
+
+      run(middleware, jwt.sign({ userId: "1", tenantId: "t" }, JWT_SECRET));
+
+      expectUnauthorized();
+    });
+
+    it("should apply clock tolerance to expiry", () => {
+      const exp = Math.floor(Date.now() / 1000) - 10;
+      const token = jwt.sign({ userId: "1", tenantId: "t", exp }, JWT_SECRET);
+
+      run(createAuthenticator(), token);
+      expectUnauthorized();
+
+      nextFunction = jest.fn();
+      run(createAuthenticator({ clockTolerance: 30 }), token);
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should reject payloads that do not match UserClaims", () => {
+      const middleware = createAuthenticator();
+
+      run(
+        middleware,
+        jwt.sign(
+          { userId: "1", tenantId: "t", permissions: "admin" },
+          JWT_SECRET,
+        ),
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Invalid token claims",
+        }),
+      );
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it("should strip non-UserClaims fields from req.user", () => {
+      run(
+        createAuthenticator(),
+        jwt.sign({ userId: "1", tenantId: "t", name: "x" }, JWT_SECRET, {
+          expiresIn: "1h",
+        }),
+      );
+
+      expect(mockRequest.user).toEqual({ userId: "1", tenantId: "t" });
+    });
+
+    it("should map custom claim names through claimsMapper", () => {
+      const middleware = createAuthenticator({
+        claimsMapper: standardClaimsMapper,
+      });
+
+      run(
+        middleware,
+        jwt.sign(
+          {
+            sub: "user-1",
+            tid: "tenant-1",
+            scope: "results:read results:write",
+          },
+          JWT_SECRET,
+        ),
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.user).toEqual({
+        userId: "user-1",
+        tenantId: "tenant-1",
+        permissions: ["results:read", "results:write"],
+      });
+    });
+
+    describe("keyring rotation", () => {
+      const claims = { userId: "1", tenantId: "t" };
+      let onDeprecatedKey: jest.Mock;
+      let keyring: Keyring;
+
+      beforeEach(() => {
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        onDeprecatedKey = jest.fn();
+        keyring = createKeyring(
+          [
+            { kid: "2026-10", secret: "current-secret" },
+            {
+              kid: "2026-09",
+              secret: "previous-secret",
+              deprecated: true,
+              notAfter: Date.now() + 60_000,
+            },
+          ],
+          { onDeprecatedKey },
+        );
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it("should accept tokens signed with the current key", () => {
+        run(
+          createAuthenticator({ keyring }),
+          jwt.sign(claims, "current-secret", { keyid: "2026-10" }),
+        );
+
+        expect(nextFunction).toHaveBeenCalledWith();
+        expect(onDeprecatedKey).not.toHaveBeenCalled();
+      });
+
+      it("should accept the previous key during its grace window and report it", () => {
+        run(
+          createAuthenticator({ keyring }),
+          jwt.sign(claims, "previous-secret", { keyid: "2026-09" }),
+        );
+
+        expect(nextFunction).toHaveBeenCalledWith();
+        expect(onDeprecatedKey).toHaveBeenCalledWith(
+          expect.objectContaining({ kid: "2026-09" }),
+        );
+      });
+
+      it("should try every active key when the token has no kid", () => {
+        run(
+          createAuthenticator({ keyring }),
+          jwt.sign(claims, "previous-secret"),
+        );
+
+        expect(nextFunction).toHaveBeenCalledWith();
+      });
+
+      it("should reject the previous key after its grace window", () => {
+        keyring.keys[1].notAfter = Date.now() - 1;
+
+        run(
+          createAuthenticator({ keyring }),
+          jwt.sign(claims, "previous-secret", { keyid: "2026-09" }),
+        );
+
+        expectUnauthorized();
+      });
+
+      it("should not fall back to other keys when the kid mismatches", () => {
+        run(
+          createAuthenticator({ keyring }),
+          jwt.sign(claims, "current-secret", { keyid: "2026-09" }),
+        );
+
+        expectUnauthorized();
+      });
+
+      it("should reject tokens signed with unknown secrets", () => {
+        run(createAuthenticator({ keyring }), jwt.sign(claims, "rogue"));
+
+        expectUnauthorized();
+      });
+
+      it("should refuse to combine a keyring with JWKS", () => {
+        expect(() =>
+          createAuthenticator({
+            keyring,
+            jwks: { jwksUri: "http://localhost/jwks" },
+          }),
+        ).toThrow("not both");
+      });
+    });
+
+    describe("revocation", () => {
+      const claims = { userId: "user-1", tenantId: "tenant-1" };
+      let store: MemoryRevocationStore;
+
+      const runAsync = async (
+        middleware: ReturnType<typeof createAuthenticator>,
+        token: string,
+      ) => {
+        mockRequest.headers = { authorization: `Bearer ${token}` };
+        await middleware(
+          mockRequest as Request,
+          mockResponse as Response,
+          nextFunction,
+        );
+      };
+
+      beforeEach(() => {
+        store = createMemoryRevocationStore();
+      });
+
+      it("should pass tokens that are not revoked", async () => {
+        await runAsync(
+          createAuthenticator({ revocationStore: store }),
+          jwt.sign(claims, JWT_SECRET, { jwtid: "jti-1" }),
+        );
+
+        expect(nextFunction).toHaveBeenCalledWith();
+        expect(mockRequest.user?.userId).toBe("user-1");
+      });
+
+      it("should reject a token revoked by jti", async () => {
+        store.revokeToken("jti-1");
+
+        await runAsync(
+          createAuthenticator({ revocationStore: store }),
+          jwt.sign(claims, JWT_SECRET, { jwtid: "jti-1" }),
+        );
+
+        expect(nextFunction).toHaveBeenCalledWith(
+          expect.objectContaining({
+            status: 401,
+            code: ErrorCode.UNAUTHORIZED,
+            message: "Token has been revoked",
+          }),
+        );
+        expect(mockRequest.user).toBeUndefined();
+      });
+
+      it("should reject tokens issued before a user-wide revocation", async () => {
+        const iat = Math.floor(Date.now() / 1000) - 60;
+        store.revokeUser("tenant-1", "user-1");
+
+        await runAsync(
+          createAuthenticator({ revocationStore: store }),
+          jwt.sign({ ...claims, iat }, JWT_SECRET),
+        );
+
+        expect(nextFunction).toHaveBeenCalledWith(
+          expect.objectContaining({ message: "Token has been revoked" }),
+        );
+      });
+
+      it("should reject tokens issued before a tenant-wide revocation", async () => {
+        const iat = Math.floor(Date.now() / 1000) - 60;
+        store.revokeTenant("tenant-1");
+
+        await runAsync(
+          createAuthenticator({ revocationStore: store }),
+          jwt.sign({ ...claims, iat }, JWT_SECRET),
+        );
+
+        expect(nextFunction).toHaveBeenCalledWith(
+          expect.objectContaining({ status: 401 }),
+        );
+      });
+
+      it("should reject tokens with a membership in a revoked tenant", async () => {
+        const iat = Math.floor(Date.now() / 1000) - 60;
+        store.revokeTenant("tenant-cust");
+
+        await runAsync(
+          createAuthenticator({ revocationStore: store }),
+          jwt.sign(
+            { ...claims, iat, memberships: [{ tenantId: "tenant-cust" }] },
+            JWT_SECRET,
+          ),
+        );
+
+        expect(nextFunction).toHaveBeenCalledWith(
+          expect.objectContaining({ message: "Token has been revoked" }),
+        );
+      });
+
+      describe("store failure", () => {
+        const failingStore: RevocationStore = {
+          isTokenRevoked: () => Promise.reject(new Error("redis down")),
+          getUserRevokedBefore: async () => undefined,
+          getTenantRevokedBefore: async () => undefined,
+        };
+
+        beforeEach(() => {
+          jest.spyOn(console, "error").mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+          jest.restoreAllMocks();
+        });
+
+        it("should fail closed with 503 by default", async () => {
+          await runAsync(
+            createAuthenticator({ revocationStore: failingStore }),
+            jwt.sign(claims, JWT_SECRET, { jwtid: "jti-1" }),
+          );
+
+          expect(nextFunction).toHaveBeenCalledWith(
+            expect.objectContaining({
+              status: 503,
+              code: ErrorCode.INTERNAL_ERROR,
+              message: "Authentication unavailable",
+            }),
+          );
+          expect(mockRequest.user).toBeUndefined();
+        });
+
+        it("should let the request through when configured to fail open", async () => {
+          await runAsync(
+            createAuthenticator({
+              revocationStore: failingStore,
+              revocationFailOpen: true,
+            }),
+            jwt.sign(claims, JWT_SECRET, { jwtid: "jti-1" }),
+          );
+
+          expect(nextFunction).toHaveBeenCalledWith();
+          expect(console.error).toHaveBeenCalledWith(
+            "[Auth] Revocation check failed",
+            expect.any(Error),
+          );
+        });
+      });
+    });
+
+    it("should surface missing configuration as a 500 AppError", () => {
+      const middleware = createAuthenticator({ secret: () => undefined });
+
+      run(middleware, "sometoken");
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 500,
+          code: ErrorCode.INTERNAL_ERROR,
+          message: "Authentication not configured",
+        }),
+      );
+    });
+  });
+
+  describe("optionalAuthenticate", () => {
+    const run = () =>
+      optionalAuthenticate(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+    it("should continue anonymously when no Authorization header is sent", () => {
+      run();
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it("should populate req.user for a valid token", () => {
+      const token = jwt.sign(
+        { userId: "user-123", tenantId: "tenant-456" },
+        JWT_SECRET,
+        { expiresIn: "1h" },
+      );
+      mockRequest.headers = { authorization: `Bearer ${token}` };
+
+      run();
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.user?.userId).toBe("user-123");
+    });
+
+    it("should reject expired tokens instead of downgrading to anonymous", () => {
+      const token = jwt.sign(
+        { userId: "user-123", tenantId: "tenant-456" },
+        JWT_SECRET,
+        { expiresIn: "-1h" },
+      );
+      mockRequest.headers = { authorization: `Bearer ${token}` };
+
+      run();
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          message: "Invalid or expired token",
+        }),
+      );
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it.each([
+      ["malformed token", "Bearer not.a.token"],
+      ["wrong scheme", "Basic dXNlcjpwYXNz"],
+      ["empty token", "Bearer "],
+      ["empty header", ""],
+    ])("should reject a %s", (_label, header) => {
+      mockRequest.headers = { authorization: header };
+
+      run();
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+        }),
+      );
+    });
+
+    it("should apply the configured policy when built with options", () => {
+      const token = jwt.sign(
+        { userId: "user-123", tenantId: "tenant-456" },
+        JWT_SECRET,
+      );
+      mockRequest.headers = { authorization: `Bearer ${token}` };
+
+      createOptionalAuthenticator({ requireExp: true })(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+  });
+
+  describe("createJwksAuthenticator()", () => {
+    const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const claims = { userId: "user-123", tenantId: "tenant-456" };
+    let server: Server;
+    let jwksUri: string;
+    let jwksStatus: number;
+
+    beforeAll((done) => {
+      const app = express();
+      app.get("/jwks", (_req, res) => {
+        res.status(jwksStatus).json({
+          keys: [
+            { ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1" },
+            { ...ec.publicKey.export({ format: "jwk" }), kid: "ec-1" },
+          ],
+        });
+      });
+      server = app.listen(0, () => {
+        const { port } = server.address() as AddressInfo;
+        jwksUri = `http://127.0.0.1:${port}/jwks`;
+        done();
+      });
+    });
+
+    afterAll((done) => {
+      server.close(done);
+    });
+
+    beforeEach(() => {
+      jwksStatus = 200;
+    });
+
+    const run = async (token: string) => {
+      const middleware = createJwksAuthenticator({ jwksUri });
+      mockRequest.headers = { authorization: `Bearer ${token}` };
+      await middleware(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+    };
+
+    it("should reject non-asymmetric algorithms at construction", () => {
+      expect(() =>
+        createJwksAuthenticator({ jwksUri, algorithms: ["HS256" as never] }),
+      ).toThrow("asymmetric algorithms only");
+    });
+
+    it("should accept an RS256 token signed by a published key", async () => {
+      const token = jwt.sign(claims, rsa.privateKey, {
+        algorithm: "RS256",
+        keyid: "rsa-1",
+      });
+
+      await run(token);
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.user?.userId).toBe("user-123");
+    });
+
+    it("should accept an ES256 token signed by a published key", async () => {
+      const token = jwt.sign(claims, ec.privateKey, {
+        algorithm: "ES256",
+        keyid: "ec-1",
+      });
+
+      await run(token);
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.user?.tenantId).toBe("tenant-456");
+    });
+
+    it("should reject a token signed by an unpublished key", async () => {
+      const other = generateKeyPairSync("rsa", { modulusLength: 2048 });
+      const token = jwt.sign(claims, other.privateKey, {
+        algorithm: "RS256",
+        keyid: "rsa-1",
+      });
+
+      await run(token);
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+
+    it("should reject an unknown kid", async () => {
+      const token = jwt.sign(claims, rsa.privateKey, {
+        algorithm: "RS256",
+        keyid: "missing",
+      });
+
+      await run(token);
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Invalid or expired token",
+        }),
+      );
+    });
+
+    it("should reject HS256 tokens signed with the public key (algorithm confusion)", async () => {
+      const publicPem = rsa.publicKey.export({ format: "pem", type: "spki" });
+      const token = jwt.sign(claims, publicPem.toString(), {
+        algorithm: "HS256",
+        keyid: "rsa-1",
+      });
+
+      await run(token);
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+
+    it("should reject unsigned tokens", async () => {
+      const token = jwt.sign(claims, "", { algorithm: "none" });
+
+      await run(token);
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+
+    it("should return 503 when signing keys cannot be loaded", async () => {
+      jwksStatus = 500;
+      const token = jwt.sign(claims, rsa.privateKey, {
+        algorithm: "RS256",
+        keyid: "rsa-1",
+      });
+
+      await run(token);
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 503 }),
+      );
+    });
+  });
 });
@@ -0,0 +1,203 @@
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+
+import { hashApiKey } from "../../src/middlewares/apiKey.middleware";
+import {
+  anonymousStrategy,
+  apiKeyStrategy,
+  authenticateWith,
+  bearerStrategy,
+  serviceTokenStrategy,
+} from "../../src/middlewares/authStrategy.middleware";
+import { ErrorCode } from "../../src/types/api";
+import { signServiceToken } from "../../src/utils/serviceToken";
+
+describe("Multi-strategy Authentication", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+  const userToken = jwt.sign(
+    { userId: "user-1", tenantId: "tenant-1" },
+    process.env.JWT_SECRET!,
+  );
+  const lookup = jest.fn(async (hash: string) =>
+    hash === hashApiKey("pqa_valid")
+      ? { keyId: "ci", tenantId: "tenant-1", permissions: ["results:write"] }
+      : undefined,
+  );
+
+  const withHeaders = (headers: Record<string, string>) => {
+    const lower = Object.fromEntries(
+      Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]),
+    );
+    mockRequest = {
+      headers: lower,
+      header: ((name: string) =>
+        lower[name.toLowerCase()]) as Request["header"],
+    };
+  };
+
+  const run = async (middleware: ReturnType<typeof authenticateWith>) => {
+    await middleware(
+      mockRequest as Request,
+      mockResponse as Response,
+      nextFunction,
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  beforeEach(() => {
+    withHeaders({});
+    mockResponse = {
+      headersSent: false,
+      setHeader: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    nextFunction = jest.fn();
+    lookup.mockClear();
+  });
+
+  const jwtOrApiKey = () =>
+    authenticateWith([bearerStrategy(), apiKeyStrategy({ lookup })]);
+
+  it("should require at least one strategy", () => {
+    expect(() => authenticateWith([])).toThrow("At least one");
+  });
+
+  it("should authenticate with the first strategy whose credentials are present", async () => {
+    withHeaders({ Authorization: `Bearer ${userToken}` });
+
+    await run(jwtOrApiKey());
+
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockRequest.user?.userId).toBe("user-1");
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("should try later strategies when earlier ones do not apply", async () => {
+    withHeaders({ "X-API-Key": "pqa_valid" });
+
+    await run(jwtOrApiKey());
+
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockRequest.user?.userId).toBe("apikey:ci");
+  });
+
+  it("should honour strategy order when several credentials are present", async () => {
+    withHeaders({
+      Authorization: `Bearer ${userToken}`,
+      "X-API-Key": "pqa_valid",
+    });
+
+    await run(authenticateWith([apiKeyStrategy({ lookup }), bearerStrategy()]));
+
+    expect(mockRequest.user?.userId).toBe("apikey:ci");
+  });
+
+  it("should not fall through when presented credentials are invalid", async () => {
+    withHeaders({
+      Authorization: "Bearer not-a-token",
+      "X-API-Key": "pqa_valid",
+    });
+
+    await run(jwtOrApiKey());
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 401 }),
+    );
+    expect(mockRequest.user).toBeUndefined();
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  describe("RFC 6750 challenges", () => {
+    it("should list every challenge when no credentials are sent", async () => {
+      await run(jwtOrApiKey());
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Authentication required",
+        }),
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith("WWW-Authenticate", [
+        'Bearer realm="primeqa"',
+        'ApiKey realm="primeqa"',
+      ]);
+    });
+
+    it("should report invalid_token for the failing strategy", async () => {
+      withHeaders({ Authorization: "Bearer not-a-token" });
+
+      await run(authenticateWith([bearerStrategy()], { realm: "results" }));
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        "WWW-Authenticate",
+        'Bearer realm="results", error="invalid_token", error_description="Invalid or expired token"',
+      );
+    });
+
+    it("should not challenge on server-side failures", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      withHeaders({ "X-API-Key": "pqa_valid" });
+
+      await run(
+        authenticateWith([
+          apiKeyStrategy({ lookup: () => Promise.reject(new Error("down")) }),
+        ]),
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 503 }),
+      );
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("service tokens", () => {
+    it("should accept a service token strategy", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({ service: "results-service" }),
+      });
+
+      await run(authenticateWith([serviceTokenStrategy(), bearerStrategy()]));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.service?.serviceId).toBe("results-service");
+    });
+
+    it("should support on-behalf-of through the service strategy", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({ service: "results-service" }),
+        Authorization: `Bearer ${userToken}`,
+      });
+
+      await run(authenticateWith([serviceTokenStrategy(), bearerStrategy()]));
+
+      expect(mockRequest.service?.serviceId).toBe("results-service");
+      expect(mockRequest.user?.userId).toBe("user-1");
+    });
+  });
+
+  describe("anonymous", () => {
+    it("should let requests without credentials through", async () => {
+      await run(authenticateWith([bearerStrategy(), anonymousStrategy()]));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.user).toBeUndefined();
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+    });
+
+    it("should still reject invalid credentials", async () => {
+      withHeaders({ Authorization: "Bearer not-a-token" });
+
+      await run(authenticateWith([bearerStrategy(), anonymousStrategy()]));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+  });
+});
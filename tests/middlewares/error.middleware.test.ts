@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from "express";
 
-import { errorHandler } from "../../src/middlewares/error.middleware";
+import {
+  createErrorHandler,
+  errorHandler,
+} from "../../src/middlewares/error.middleware";
 import { AppError } from "../../src/errors/AppError";
 import { ErrorCode } from "../../src/types/api";
 
@@ -265,7 +268,8 @@ describe("Error Handling", () => {
   });
 
   describe("Spec 5.4.7: Error logging", () => {
-    it("should log all errors to console", () => {
+    it("should log 4xx errors as warnings", () => {
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation();
       const error = new AppError(ErrorCode.NOT_FOUND, "Not found", 404);
 
       errorHandler(
@@ -275,7 +279,31 @@ describe("Error Handling", () => {
         nextFunction,
       );
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith("[ErrorHandler]", error);
+      expect(warnSpy).toHaveBeenCalledWith(
+        "[ErrorHandler]",
+        expect.objectContaining({
+          message: "Not found",
+          code: ErrorCode.NOT_FOUND,
+          status: 404,
+          traceId: "test-correlation-id-123",
+        }),
+      );
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it("should log 5xx errors as errors", () => {
+      errorHandler(
+        new Error("db exploded") as any,
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "[ErrorHandler]",
+        expect.objectContaining({ message: "db exploded", status: 500 }),
+      );
     });
   });
 
@@ -319,4 +347,283 @@ describe("Error Handling", () => {
       );
     });
   });
+
+  describe("RFC 7807 problem details", () => {
+    beforeEach(() => {
+      mockRequest.originalUrl = "/api/users/123?expand=true";
+      mockRequest.headers = {};
+      mockResponse.type = jest.fn().mockReturnThis();
+    });
+
+    it("should render AppError as problem+json", () => {
+      const handler = createErrorHandler({ format: "problem" });
+      const error = new AppError(ErrorCode.NOT_FOUND, "User not found", 404, {
+        userId: "123",
+      });
+
+      handler(
+        error,
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.type).toHaveBeenCalledWith(
+        "application/problem+json",
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        type: "about:blank",
+        title: "Not Found",
+        status: 404,
+        detail: "User not found",
+        instance: "/api/users/123",
+        code: ErrorCode.NOT_FOUND,
+        traceId: "test-correlation-id-123",
+        details: { userId: "123" },
+      });
+    });
+
+    it("should build the type URI from the error code", () => {
+      const handler = createErrorHandler({
+        format: "problem",
+        problemTypeBaseUrl: "https://errors.primeqa.io/",
+      });
+
+      handler(
+        new AppError(ErrorCode.VALIDATION_ERROR, "Invalid payload", 400),
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "https://errors.primeqa.io/validation-error",
+          title: "Bad Request",
+        }),
+      );
+    });
+
+    it("should mask 5xx messages in problem details", () => {
+      const handler = createErrorHandler({ format: "problem" });
+
+      handler(
+        new Error("connection string leaked") as any,
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: "Internal Server Error",
+          status: 500,
+          detail: "Internal Server Error",
+          code: ErrorCode.INTERNAL_ERROR,
+        }),
+      );
+    });
+
+    it("should negotiate on the Accept header", () => {
+      const handler = createErrorHandler({ format: "negotiate" });
+      const error = new AppError(ErrorCode.FORBIDDEN, "Forbidden", 403);
+
+      handler(
+        error,
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+      expect(mockResponse.type).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenLastCalledWith(
+        expect.objectContaining({ success: false }),
+      );
+
+      mockRequest.headers = {
+        accept: "application/problem+json, application/json;q=0.5",
+      };
+      handler(
+        error,
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+      expect(mockResponse.type).toHaveBeenCalledWith(
+        "application/problem+json",
+      );
+      expect(mockResponse.json).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 403, title: "Forbidden" }),
+      );
+    });
+
+    it("should keep the default shape for errorHandler", () => {
+      mockRequest.headers = { accept: "application/problem+json" };
+
+      errorHandler(
+        new AppError(ErrorCode.CONFLICT, "Already exists", 409),
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(mockResponse.type).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, code: ErrorCode.CONFLICT }),
+      );
+    });
+  });
+
+  describe("createErrorHandler()", () => {
+    let logger: { warn: jest.Mock; error: jest.Mock };
+
+    beforeEach(() => {
+      logger = { warn: jest.fn(), error: jest.fn() };
+      mockRequest.method = "POST";
+      mockRequest.originalUrl = "/api/login?next=/home";
+    });
+
+    const handle = (
+      error: unknown,
+      options: Parameters<typeof createErrorHandler>[0] = {},
+    ) =>
+      createErrorHandler({ logger, ...options })(
+        error as Error,
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+    it("should route logs to the injected logger by status", () => {
+      handle(new AppError(ErrorCode.UNAUTHORIZED, "Bad token", 401));
+      handle(new AppError(ErrorCode.INTERNAL_ERROR, "Down", 503));
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        "[ErrorHandler]",
+        expect.objectContaining({
+          status: 401,
+          method: "POST",
+          path: "/api/login",
+        }),
+      );
+      expect(logger.error).toHaveBeenCalledWith(
+        "[ErrorHandler]",
+        expect.objectContaining({ status: 503 }),
+      );
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+    });
+
+    it("should mask secrets in logged details", () => {
+      handle(
+        new AppError(ErrorCode.VALIDATION_ERROR, "Invalid", 400, {
+          username: "jane",
+          password: "hunter2",
+          nested: { token: "abc" },
+        }),
+      );
+
+      const entry = logger.warn.mock.calls[0][1];
+      expect(entry.details).toEqual({
+        username: "jane",
+        password: "*****",
+        nested: { token: "*****" },
+      });
+      expect(JSON.stringify(entry)).not.toContain("hunter2");
+    });
+
+    it("should include stacks only when enabled", () => {
+      const error = new Error("boom");
+
+      handle(error, { includeStack: true });
+      handle(error, { includeStack: false });
+
+      expect(logger.error.mock.calls[0][1].stack).toBe(error.stack);
+      expect(logger.error.mock.calls[1][1].stack).toBeUndefined();
+    });
+
+    it("should omit stacks in production by default", () => {
+      const previous = process.env.NODE_ENV;
+      process.env.NODE_ENV = "production";
+      try {
+        handle(new Error("boom"));
+      } finally {
+        process.env.NODE_ENV = previous;
+      }
+
+      expect(logger.error.mock.calls[0][1].stack).toBeUndefined();
+    });
+
+    it("should include stacks outside production by default", () => {
+      handle(new Error("boom"));
+
+      expect(logger.error.mock.calls[0][1].stack).toContain("boom");
+    });
+
+    it("should hide details from clients when exposeDetails is false", () => {
+      handle(new AppError(ErrorCode.CONFLICT, "Exists", 409, { id: "1" }), {
+        exposeDetails: false,
+      });
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ details: undefined }),
+      );
+      expect(logger.warn.mock.calls[0][1].details).toEqual({ id: "1" });
+    });
+
+    it("should hide details from clients in production by default", () => {
+      const previous = process.env.NODE_ENV;
+      process.env.NODE_ENV = "production";
+      try {
+        handle(new AppError(ErrorCode.CONFLICT, "Exists", 409, { id: "1" }));
+        handle(new AppError(ErrorCode.CONFLICT, "Exists", 409, { id: "1" }), {
+          exposeDetails: true,
+        });
+      } finally {
+        process.env.NODE_ENV = previous;
+      }
+
+      expect((mockResponse.json as jest.Mock).mock.calls[0][0].details).toBe(
+        undefined,
+      );
+      expect((mockResponse.json as jest.Mock).mock.calls[1][0].details).toEqual(
+        { id: "1" },
+      );
+      expect(logger.warn.mock.calls[0][1].details).toEqual({ id: "1" });
+    });
+
+    it("should map foreign errors to AppError", () => {
+      const duplicate = Object.assign(new Error("E11000 duplicate key"), {
+        code: 11000,
+      });
+
+      handle(duplicate, {
+        mapError: (err) =>
+          (err as { code?: unknown }).code === 11000
+            ? new AppError(ErrorCode.CONFLICT, "Already exists", 409)
+            : undefined,
+      });
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: ErrorCode.CONFLICT,
+          message: "Already exists",
+        }),
+      );
+    });
+
+    it("should fall back to the original error when mapError throws", () => {
+      handle(new Error("boom"), {
+        mapError: () => {
+          throw new Error("mapper bug");
+        },
+      });
+
+      expect(logger.error).toHaveBeenCalledWith(
+        "[ErrorHandler] mapError failed",
+        { message: "mapper bug" },
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+    });
+  });
 });
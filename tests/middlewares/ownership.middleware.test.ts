@@ -0,0 +1,230 @@
+import { NextFunction, Request, Response } from "express";
+
+import {
+  getResource,
+  requireOwnership,
+} from "../../src/middlewares/ownership.middleware";
+import { ErrorCode } from "../../src/types/api";
+import { addAuditSink, clearAuditSinks } from "../../src/utils/audit";
+import { createRoleRegistry } from "../../src/utils/roles";
+
+interface Project {
+  id: string;
+  tenantId: string;
+  ownerId: string;
+  name: string;
+}
+
+describe("Ownership Middleware", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: jest.Mock;
+
+  const project: Project = {
+    id: "proj-1",
+    tenantId: "tenant-456",
+    ownerId: "user-123",
+    name: "Checkout",
+  };
+
+  const run = async (
+    middleware: ReturnType<typeof requireOwnership>,
+  ): Promise<void> => {
+    await middleware(
+      mockRequest as Request,
+      mockResponse as Response,
+      nextFunction as NextFunction,
+    );
+  };
+
+  beforeEach(() => {
+    mockRequest = {
+      params: { id: "proj-1" },
+      user: { userId: "user-123", tenantId: "tenant-456" },
+    };
+    mockResponse = {};
+    nextFunction = jest.fn();
+  });
+
+  it("should attach the resource when the user owns it", async () => {
+    const loader = jest.fn().mockResolvedValue(project);
+
+    await run(requireOwnership<Project>(loader));
+
+    expect(loader).toHaveBeenCalledWith(mockRequest);
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockRequest.resource).toBe(project);
+    expect(getResource<Project>(mockRequest as Request).name).toBe("Checkout");
+  });
+
+  it("should reject a non-owner with 403", async () => {
+    mockRequest.user = { userId: "user-999", tenantId: "tenant-456" };
+
+    await run(requireOwnership(async () => project));
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 403, code: ErrorCode.FORBIDDEN }),
+    );
+    expect(mockRequest.resource).toBeUndefined();
+  });
+
+  it("should let bypass permissions through for non-owners", async () => {
+    mockRequest.user = {
+      userId: "user-999",
+      tenantId: "tenant-456",
+      permissions: ["project:*"],
+    };
+
+    await run(
+      requireOwnership(async () => project, {
+        bypassPermissions: ["project:admin"],
+      }),
+    );
+
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockRequest.resource).toBe(project);
+  });
+
+  it("should honour bypass permissions granted by role", async () => {
+    mockRequest.user = {
+      userId: "user-999",
+      tenantId: "tenant-456",
+      role: "admin",
+    };
+
+    await run(
+      requireOwnership(async () => project, {
+        bypassPermissions: ["project:admin"],
+        roles: createRoleRegistry({
+          admin: { permissions: ["project:admin"] },
+        }),
+      }),
+    );
+
+    expect(nextFunction).toHaveBeenCalledWith();
+  });
+
+  it("should enforce tenant match even with a bypass permission", async () => {
+    mockRequest.user = {
+      userId: "user-999",
+      tenantId: "tenant-other",
+      permissions: ["project:admin"],
+    };
+
+    await run(
+      requireOwnership(async () => project, {
+        bypassPermissions: ["project:admin"],
+      }),
+    );
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 403, message: "Tenant mismatch" }),
+    );
+  });
+
+  it("should reject resources without a tenant", async () => {
+    await run(
+      requireOwnership(async () => ({ ownerId: "user-123", tenantId: "" })),
+    );
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 403, message: "Tenant mismatch" }),
+    );
+  });
+
+  it("should support custom owner and tenant fields", async () => {
+    await run(
+      requireOwnership(
+        async () => ({ createdBy: "user-123", orgId: "tenant-456" }),
+        { ownerField: "createdBy", tenantField: "orgId" },
+      ),
+    );
+
+    expect(nextFunction).toHaveBeenCalledWith();
+  });
+
+  it("should accept an array of owners", async () => {
+    await run(
+      requireOwnership(async () => ({
+        ownerId: ["user-1", "user-123"],
+        tenantId: "tenant-456",
+      })),
+    );
+
+    expect(nextFunction).toHaveBeenCalledWith();
+  });
+
+  it("should return 404 when the loader finds nothing", async () => {
+    await run(requireOwnership(async () => null));
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 404, code: ErrorCode.NOT_FOUND }),
+    );
+  });
+
+  it("should return 401 without a user and skip the loader", async () => {
+    const loader = jest.fn();
+    mockRequest.user = undefined;
+
+    await run(requireOwnership(loader));
+
+    expect(loader).not.toHaveBeenCalled();
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 401 }),
+    );
+  });
+
+  it("should forward loader errors", async () => {
+    const failure = new Error("db down");
+
+    await run(requireOwnership(() => Promise.reject(failure)));
+    expect(nextFunction).toHaveBeenCalledWith(failure);
+
+    nextFunction.mockClear();
+    await run(
+      requireOwnership(() => {
+        throw failure;
+      }),
+    );
+    expect(nextFunction).toHaveBeenCalledWith(failure);
+  });
+
+  it("should reject invalid bypass permissions at construction", () => {
+    expect(() =>
+      requireOwnership(async () => project, { bypassPermissions: ["a::b"] }),
+    ).toThrow("Invalid permission");
+  });
+
+  it("should throw from getResource when nothing was loaded", () => {
+    expect(() => getResource(mockRequest as Request)).toThrow(
+      "Resource not loaded",
+    );
+  });
+
+  it("should record tenant and ownership decisions", async () => {
+    const sink = jest.fn();
+    addAuditSink(sink);
+    mockRequest.user = {
+      userId: "user-999",
+      tenantId: "tenant-456",
+      permissions: ["project:admin"],
+    };
+
+    await run(
+      requireOwnership(async () => project, {
+        bypassPermissions: ["project:admin"],
+      }),
+    );
+    clearAuditSinks();
+
+    expect(sink.mock.calls.map(([event]) => event)).toEqual([
+      expect.objectContaining({ check: "tenant", outcome: "allow" }),
+      expect.objectContaining({
+        check: "ownership",
+        outcome: "allow",
+        requirement: "owner:ownerId",
+        details: { bypass: "project:admin" },
+      }),
+    ]);
+  });
+});
@@ -3,8 +3,16 @@ import { Request, Response, NextFunction } from "express";
 import {
   requirePermission,
   requireAnyPermission,
+  requireAllPermissions,
+  requirePermissions,
 } from "../../src/middlewares/permission.middleware";
 import { ErrorCode } from "../../src/types/api";
+import { addAuditSink, clearAuditSinks } from "../../src/utils/audit";
+import {
+  clearRoleRegistry,
+  createRoleRegistry,
+  registerRoles,
+} from "../../src/utils/roles";
 
 describe("Permission Middleware", () => {
   let mockRequest: Partial<Request>;
@@ -303,6 +311,435 @@ describe("Permission Middleware", () => {
     });
   });
 
+  describe("requireAllPermissions()", () => {
+    const run = (middleware: ReturnType<typeof requireAllPermissions>) =>
+      middleware(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+    it("should pass when the user holds every permission", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["project:write", "results:*"],
+      };
+
+      run(requireAllPermissions(["project:write", "results:write"]));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should reject with 403 when one permission is missing", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["project:write"],
+      };
+
+      run(requireAllPermissions(["project:write", "results:write"]));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          code: ErrorCode.FORBIDDEN,
+          details: undefined,
+        }),
+      );
+    });
+
+    it("should report missing permissions when exposeMissing is set", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["project:write"],
+      };
+
+      run(
+        requireAllPermissions(["project:write", "results:write"], {
+          exposeMissing: true,
+        }),
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          details: { missing: ["results:write"] },
+        }),
+      );
+    });
+
+    it("should return 401 without a user", () => {
+      run(requireAllPermissions(["users.read"]));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+
+    it("should reject empty or invalid lists at construction", () => {
+      expect(() => requireAllPermissions([])).toThrow(
+        "At least one permission is required",
+      );
+      expect(() => requireAllPermissions(["users.read", "a::b"])).toThrow(
+        "Invalid permission",
+      );
+    });
+  });
+
+  describe("requirePermissions()", () => {
+    const expression = {
+      any: [{ all: ["project:write", "results:write"] }, "admin"],
+    };
+    const run = (middleware: ReturnType<typeof requirePermissions>) =>
+      middleware(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+    it("should pass when the AND branch is satisfied", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["project:write", "results:write"],
+      };
+
+      run(requirePermissions(expression));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should pass when the OR alternative is satisfied", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["admin"],
+      };
+
+      run(requirePermissions(expression));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should expose missing permissions behind the flag", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["project:write"],
+      };
+
+      run(requirePermissions(expression, { exposeMissing: true }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          details: { missing: ["results:write", "admin"] },
+        }),
+      );
+    });
+
+    it("should deny and report permissions excluded by not()", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["results:read", "results:read:restricted"],
+      };
+
+      run(
+        requirePermissions(
+          { all: ["results:read", { not: "results:read:restricted" }] },
+          { exposeMissing: true },
+        ),
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          details: { missing: [], forbidden: ["results:read:restricted"] },
+        }),
+      );
+    });
+
+    it("should validate the expression at construction", () => {
+      expect(() => requirePermissions({ any: [] })).toThrow(
+        "expected a non-empty array",
+      );
+      expect(() =>
+        requirePermissions({ all: ["users.read", { not: "bad::perm" }] }),
+      ).toThrow("$.all[1].not");
+    });
+  });
+
+  describe("Role grants", () => {
+    const definitions = {
+      viewer: { permissions: ["project:read"] },
+      manager: { permissions: ["project:write"], inherits: ["viewer"] },
+    };
+
+    afterEach(() => clearRoleRegistry());
+
+    it("should grant permissions from the registered role", () => {
+      registerRoles(definitions);
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        role: "manager",
+      };
+
+      requireAllPermissions(["project:read", "project:write"])(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should pick up roles registered after the middleware is built", () => {
+      const middleware = requirePermission("project:read");
+      registerRoles(definitions);
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        role: "viewer",
+      };
+
+      middleware(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should use a registry passed in options", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        role: "viewer",
+        permissions: ["results:read"],
+      };
+
+      requirePermissions(
+        { all: ["project:read", "results:read"] },
+        { roles: createRoleRegistry(definitions) },
+      )(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should deny permissions the role does not grant", () => {
+      registerRoles(definitions);
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        role: "viewer",
+      };
+
+      requirePermission("project:write")(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 403 }),
+      );
+    });
+  });
+
+  describe("Audit events", () => {
+    let sink: jest.Mock;
+
+    beforeEach(() => {
+      sink = jest.fn();
+      addAuditSink(sink);
+      mockRequest.method = "POST";
+      mockRequest.originalUrl = "/results";
+    });
+
+    afterEach(() => clearAuditSinks());
+
+    it("should record allowed decisions", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["results:*"],
+      };
+
+      requirePermission("results:write")(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          check: "permission",
+          outcome: "allow",
+          requirement: "results:write",
+          userId: "user-123",
+          tenantId: "tenant-456",
+          method: "POST",
+          route: "/results",
+        }),
+      );
+    });
+
+    it("should record denials with the missing permissions", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["results:read"],
+      };
+
+      requireAllPermissions(["results:read", "results:write"])(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: "deny",
+          requirement: '{"all":["results:read","results:write"]}',
+          reason: "Forbidden",
+          details: { missing: ["results:write"] },
+        }),
+      );
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ details: undefined }),
+      );
+    });
+
+    it("should record unauthenticated requests as denied", () => {
+      requirePermission("results:write")(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: "deny", reason: "Unauthorized" }),
+      );
+    });
+  });
+
+  describe("Tenant memberships", () => {
+    beforeEach(() => {
+      mockRequest.user = {
+        userId: "consultant-1",
+        tenantId: "tenant-vendor",
+        permissions: ["project:*"],
+        memberships: [
+          { tenantId: "tenant-client", permissions: ["results:write"] },
+        ],
+      };
+      mockRequest.membership = {
+        tenantId: "tenant-client",
+        permissions: ["results:write"],
+      };
+    });
+
+    it("should grant the selected membership's permissions", () => {
+      requirePermission("results:write")(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should not grant home-tenant permissions inside a membership", () => {
+      requirePermission("project:read")(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 403 }),
+      );
+    });
+
+    it("should expand the membership role", () => {
+      mockRequest.membership = { tenantId: "tenant-client", role: "viewer" };
+
+      requirePermission("project:read", {
+        roles: createRoleRegistry({
+          viewer: { permissions: ["project:read"] },
+        }),
+      })(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+  });
+
+  describe("Wildcard and hierarchical grants", () => {
+    it("should satisfy requirePermission with a wildcard grant", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["results:read:*"],
+      };
+
+      requirePermission("results:read:own")(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should not let a wildcard grant escape its prefix", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["results:read:*"],
+      };
+
+      requirePermission("results:write:own")(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 403 }),
+      );
+    });
+
+    it("should satisfy requireAnyPermission with a wildcard grant", () => {
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        permissions: ["project:*"],
+      };
+
+      requireAnyPermission(["users.read", "project:archive"])(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should reject invalid permission strings at construction", () => {
+      expect(() => requirePermission("project::read")).toThrow(
+        "Invalid permission",
+      );
+      expect(() => requireAnyPermission(["users.read", ""])).toThrow(
+        "Invalid permission",
+      );
+    });
+  });
+
   describe("Spec: Authorization is declarative", () => {
     it("should allow chaining multiple permission checks", () => {
       mockRequest.user = {
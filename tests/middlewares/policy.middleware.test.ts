@@ -0,0 +1,246 @@
+import { NextFunction, Request, Response } from "express";
+
+import {
+  authorize,
+  requirePolicy,
+} from "../../src/middlewares/policy.middleware";
+import { ErrorCode } from "../../src/types/api";
+import { addAuditSink, clearAuditSinks } from "../../src/utils/audit";
+import {
+  clearPolicyRegistry,
+  createPolicyRegistry,
+  definePolicy,
+  registerPolicies,
+} from "../../src/utils/policy";
+import { createRoleRegistry } from "../../src/utils/roles";
+
+interface Project {
+  tenantId: string;
+  ownerId: string;
+}
+
+describe("Policy Middleware", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: jest.Mock;
+
+  const editProject = definePolicy<Project>({
+    name: "project.edit",
+    rules: [
+      {
+        description: "owner may edit",
+        when: ({ subject, resource }) => resource?.ownerId === subject.userId,
+      },
+      {
+        description: "no deletes",
+        effect: "deny",
+        when: ({ action }) => action === "DELETE",
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    registerPolicies([editProject]);
+    mockRequest = {
+      method: "PUT",
+      ip: "127.0.0.1",
+      user: { userId: "user-1", tenantId: "tenant-1" },
+      resource: { tenantId: "tenant-1", ownerId: "user-1" },
+    };
+    mockResponse = {};
+    nextFunction = jest.fn();
+  });
+
+  afterEach(() => clearPolicyRegistry());
+
+  const run = (middleware: ReturnType<typeof requirePolicy>) =>
+    middleware(
+      mockRequest as Request,
+      mockResponse as Response,
+      nextFunction as NextFunction,
+    );
+
+  describe("requirePolicy()", () => {
+    it("should allow requests the policy permits", () => {
+      run(requirePolicy("project.edit"));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should use the HTTP method as the default action", () => {
+      mockRequest.method = "DELETE";
+
+      run(requirePolicy("project.edit"));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 403, details: undefined }),
+      );
+    });
+
+    it("should take the resource from the option when given", () => {
+      run(
+        requirePolicy("project.edit", {
+          resource: () => ({ tenantId: "tenant-1", ownerId: "user-2" }),
+        }),
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 403, code: ErrorCode.FORBIDDEN }),
+      );
+    });
+
+    it("should expose the decision when asked", () => {
+      mockRequest.method = "DELETE";
+
+      run(requirePolicy("project.edit", { exposeDecision: true }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          details: expect.objectContaining({
+            policy: "project.edit",
+            action: "DELETE",
+            allowed: false,
+            reason: "Denied by rule: no deletes",
+          }),
+        }),
+      );
+    });
+
+    it("should return 401 without a user", () => {
+      mockRequest.user = undefined;
+
+      run(requirePolicy("project.edit"));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+
+    it("should return 500 for an unknown policy", () => {
+      const errorSpy = jest.spyOn(console, "error").mockImplementation();
+
+      run(requirePolicy("project.archive"));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 500,
+          message: "Authorization not configured",
+        }),
+      );
+      errorSpy.mockRestore();
+    });
+
+    it("should reject an empty policy name at construction", () => {
+      expect(() => requirePolicy("")).toThrow("Policy name is required");
+    });
+  });
+
+  describe("authorize()", () => {
+    it("should return the decision when allowed", () => {
+      const decision = authorize(mockRequest as Request, "project.edit", {
+        action: "update",
+      });
+
+      expect(decision).toMatchObject({
+        allowed: true,
+        action: "update",
+        reason: "Allowed by rule: owner may edit",
+      });
+    });
+
+    it("should throw a 403 AppError when denied", () => {
+      expect(() =>
+        authorize(mockRequest as Request, "project.edit", {
+          resource: { tenantId: "tenant-1", ownerId: "someone-else" },
+        }),
+      ).toThrow(expect.objectContaining({ status: 403 }));
+    });
+
+    it("should pass environment attributes to predicates", () => {
+      const when = jest.fn().mockReturnValue(true);
+      const registry = createPolicyRegistry([
+        definePolicy({ name: "env", rules: [{ description: "env", when }] }),
+      ]);
+
+      authorize(mockRequest as Request, "env", { registry });
+
+      expect(when).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "PUT",
+          environment: { time: expect.any(Date), ip: "127.0.0.1" },
+        }),
+      );
+    });
+
+    it("should include role grants in the subject permissions", () => {
+      const registry = createPolicyRegistry([
+        definePolicy({
+          name: "doc.write",
+          rules: [
+            {
+              description: "writers",
+              when: ({ subject }) =>
+                subject.permissions?.includes("doc:write") ?? false,
+            },
+          ],
+        }),
+      ]);
+      mockRequest.user = {
+        userId: "user-1",
+        tenantId: "tenant-1",
+        role: "editor",
+        permissions: ["doc:read"],
+      };
+
+      expect(() =>
+        authorize(mockRequest as Request, "doc.write", { registry }),
+      ).toThrow(expect.objectContaining({ status: 403 }));
+
+      const decision = authorize(mockRequest as Request, "doc.write", {
+        registry,
+        roles: createRoleRegistry({ editor: { permissions: ["doc:write"] } }),
+      });
+
+      expect(decision.allowed).toBe(true);
+    });
+  });
+
+  describe("Audit events", () => {
+    afterEach(() => clearAuditSinks());
+
+    it("should record the decision explanation", () => {
+      const sink = jest.fn();
+      addAuditSink(sink);
+      mockRequest.method = "DELETE";
+
+      run(requirePolicy("project.edit"));
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          check: "policy",
+          outcome: "deny",
+          requirement: "project.edit",
+          reason: "Forbidden",
+          details: expect.objectContaining({
+            reason: "Denied by rule: no deletes",
+          }),
+        }),
+      );
+    });
+
+    it("should record allowed decisions", () => {
+      const sink = jest.fn();
+      addAuditSink(sink);
+
+      run(requirePolicy("project.edit"));
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: "allow",
+          reason: "Allowed by rule: owner may edit",
+        }),
+      );
+    });
+  });
+});
@@ -7,6 +7,10 @@ import {
 } from "../../src/middlewares/rateLimit.middleware";
 import { AppError } from "../../src/errors/AppError";
 import { ErrorCode } from "../../src/types/api";
+import {
+  clearTenantPolicyResolver,
+  registerTenantPolicyResolver,
+} from "../../src/utils/tenantPolicy";
 
 describe("Rate Limit Middleware", () => {
   let mockReq: Partial<Request>;
@@ -107,6 +111,74 @@ describe("Rate Limit Middleware", () => {
     });
   });
 
+  describe("tenant policy limits", () => {
+    beforeEach(() => {
+      registerTenantPolicyResolver(async (tenantId) =>
+        tenantId === "enterprise" ? { rateLimit: { max: 3 } } : {},
+      );
+    });
+
+    afterEach(() => {
+      clearTenantPolicyResolver();
+    });
+
+    const hit = async (
+      limiter: ReturnType<typeof rateLimit>,
+      times: number,
+    ) => {
+      for (let i = 0; i < times; i++) {
+        await limiter(mockReq as Request, mockRes as Response, nextFunction);
+      }
+    };
+
+    it("should use the tenant's ceiling", async () => {
+      mockReq.tenantId = "enterprise";
+      const limiter = rateLimit({ max: 1, tenantPolicy: true });
+
+      await hit(limiter, 3);
+      expect(nextFunction).toHaveBeenCalledTimes(3);
+      expect(nextFunction).not.toHaveBeenCalledWith(expect.any(AppError));
+
+      await hit(limiter, 1);
+      expect(nextFunction).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 429 }),
+      );
+    });
+
+    it("should fall back to the static max", async () => {
+      mockReq.tenantId = "free";
+      const limiter = rateLimit({ max: 1, tenantPolicy: true });
+
+      await hit(limiter, 2);
+      expect(nextFunction).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 429 }),
+      );
+    });
+
+    it("should keep separate buckets per tenant behind one IP", async () => {
+      const limiter = rateLimit({ max: 1, tenantPolicy: true });
+
+      mockReq.tenantId = "free";
+      await hit(limiter, 1);
+      mockReq.tenantId = "other";
+      await hit(limiter, 1);
+
+      expect(nextFunction).toHaveBeenCalledTimes(2);
+      expect(nextFunction).not.toHaveBeenCalledWith(expect.any(AppError));
+    });
+
+    it("should ignore tenant policies unless enabled", () => {
+      mockReq.tenantId = "enterprise";
+      const limiter = rateLimit({ max: 1 });
+
+      limiter(mockReq as Request, mockRes as Response, nextFunction);
+      limiter(mockReq as Request, mockRes as Response, nextFunction);
+      expect(nextFunction).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 429 }),
+      );
+    });
+  });
+
   describe("loginRateLimiter", () => {
     it("should be a configured rate limiter", () => {
       expect(typeof loginRateLimiter).toBe("function");
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 
 import { requestContext } from "../../src/middlewares/requestContext.middleware";
+import { getCurrentContext } from "../../src/utils/context";
 
 describe("Request Context / Observability", () => {
   let mockRequest: Partial<Request>;
@@ -148,6 +149,22 @@ describe("Request Context / Observability", () => {
     });
   });
 
+  describe("Async request context", () => {
+    it("should run next() inside a context for the request", () => {
+      (mockRequest.header as jest.Mock).mockReturnValue("trace-ctx");
+      mockRequest.headers = { authorization: "Bearer token" };
+      const next = jest.fn(() => getCurrentContext());
+
+      requestContext(mockRequest as Request, mockResponse as Response, next);
+
+      expect(next.mock.results[0].value).toEqual({
+        correlationId: "trace-ctx",
+        startTime: expect.any(Number),
+      });
+      expect(getCurrentContext()).toBeUndefined();
+    });
+  });
+
   describe("Spec: Correlation ID in error responses", () => {
     it("should include correlation ID in error handler", () => {
       (mockRequest.header as jest.Mock).mockReturnValue("trace-123");
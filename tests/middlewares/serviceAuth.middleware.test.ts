@@ -0,0 +1,217 @@
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+
+import {
+  authenticateService,
+  createServiceAuthenticator,
+} from "../../src/middlewares/serviceAuth.middleware";
+import { ErrorCode } from "../../src/types/api";
+import { signServiceToken } from "../../src/utils/serviceToken";
+
+describe("Service Authentication Middleware", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+  const JWT_SECRET = process.env.JWT_SECRET!;
+  const userToken = jwt.sign(
+    { userId: "user-1", tenantId: "tenant-1" },
+    JWT_SECRET,
+  );
+
+  const withHeaders = (headers: Record<string, string>) => {
+    const lower = Object.fromEntries(
+      Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]),
+    );
+    mockRequest = {
+      headers: lower,
+      header: ((name: string) =>
+        lower[name.toLowerCase()]) as Request["header"],
+    };
+  };
+
+  beforeEach(() => {
+    withHeaders({});
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    nextFunction = jest.fn();
+  });
+
+  const run = async (middleware = authenticateService): Promise<void> => {
+    await middleware(
+      mockRequest as Request,
+      mockResponse as Response,
+      nextFunction,
+    );
+  };
+
+  it("should reject requests without a service token", async () => {
+    await run();
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 401,
+        code: ErrorCode.UNAUTHORIZED,
+        message: "Missing service token",
+      }),
+    );
+  });
+
+  it("should populate req.service for a valid service token", async () => {
+    withHeaders({
+      "X-Service-Token": signServiceToken({ service: "results-service" }),
+    });
+
+    await run();
+
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockRequest.service).toEqual(
+      expect.objectContaining({ serviceId: "results-service" }),
+    );
+    expect(mockRequest.user).toBeUndefined();
+  });
+
+  it("should reject tokens for another audience when one is configured", async () => {
+    const middleware = createServiceAuthenticator({
+      audience: "project-service",
+    });
+
+    for (const audience of [undefined, "user-service"]) {
+      withHeaders({
+        "X-Service-Token": signServiceToken({
+          service: "results-service",
+          audience,
+        }),
+      });
+      nextFunction = jest.fn();
+
+      await run(middleware);
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+      expect(mockRequest.service).toBeUndefined();
+    }
+  });
+
+  it("should not accept a user token as a service token", async () => {
+    withHeaders({ "X-Service-Token": userToken });
+
+    await run();
+
+    expect(nextFunction).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Invalid service token" }),
+    );
+    expect(mockRequest.service).toBeUndefined();
+  });
+
+  describe("on-behalf-of", () => {
+    it("should populate both principals when a user token is present", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({ service: "results-service" }),
+        Authorization: `Bearer ${userToken}`,
+      });
+
+      await run();
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.service?.serviceId).toBe("results-service");
+      expect(mockRequest.user?.userId).toBe("user-1");
+    });
+
+    it("should reject an invalid user token", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({ service: "results-service" }),
+        Authorization: "Bearer not-a-token",
+      });
+
+      await run();
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+      expect(mockRequest.service).toBeUndefined();
+    });
+
+    it("should require a user token in required mode", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({ service: "results-service" }),
+      });
+
+      await run(createServiceAuthenticator({ onBehalfOf: "required" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 401,
+          message: "User token required",
+        }),
+      );
+    });
+
+    it("should require the bound user when the service token names one", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({
+          service: "results-service",
+          onBehalfOf: "user-1",
+        }),
+      });
+
+      await run();
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "User token required" }),
+      );
+    });
+
+    it("should reject a user token for a different user than the bound one", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({
+          service: "results-service",
+          onBehalfOf: "user-2",
+        }),
+        Authorization: `Bearer ${userToken}`,
+      });
+
+      await run();
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          code: ErrorCode.FORBIDDEN,
+        }),
+      );
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it("should ignore forwarded user tokens in ignore mode", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({ service: "results-service" }),
+        Authorization: "Bearer not-a-token",
+      });
+
+      await run(createServiceAuthenticator({ onBehalfOf: "ignore" }));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.user).toBeUndefined();
+      expect(mockRequest.service?.serviceId).toBe("results-service");
+    });
+
+    it("should verify the user token with the configured user policy", async () => {
+      withHeaders({
+        "X-Service-Token": signServiceToken({ service: "results-service" }),
+        Authorization: `Bearer ${userToken}`,
+      });
+
+      await run(
+        createServiceAuthenticator({
+          user: { issuer: "https://auth.primeqa.io" },
+        }),
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+  });
+});
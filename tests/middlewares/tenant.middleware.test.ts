@@ -1,12 +1,24 @@
-import { Request, Response, NextFunction } from "express";
+import express, { Request, Response, NextFunction } from "express";
+import supertest from "supertest";
 
 import {
+  ACT_AS_TENANT_PERMISSION,
+  createTenantGuard,
+  enforceTenant,
   requireTenant,
   enforceTenantOnBody,
   assertTenantMatch,
 } from "../../src/middlewares/tenant.middleware";
 import { UserClaims } from "../../src/types/user";
+import { AppError } from "../../src/errors/AppError";
 import { ErrorCode } from "../../src/types/api";
+import { addAuditSink, clearAuditSinks } from "../../src/utils/audit";
+import { getCurrentContext, runWithContext } from "../../src/utils/context";
+import { createRoleRegistry } from "../../src/utils/roles";
+import {
+  clearTenantStatusProvider,
+  registerTenantStatusProvider,
+} from "../../src/utils/tenantStatus";
 
 describe("Tenant Isolation Middleware", () => {
   let mockRequest: Partial<Request>;
@@ -83,6 +95,233 @@ describe("Tenant Isolation Middleware", () => {
     });
   });
 
+  describe("Async request context", () => {
+    it("should record the resolved tenant and user in the context", () => {
+      const user = { userId: "user-1", tenantId: "tenant-1" } as UserClaims;
+      mockRequest.user = user;
+
+      const context = runWithContext({ correlationId: "cid" }, () => {
+        requireTenant(
+          mockRequest as Request,
+          mockResponse as Response,
+          nextFunction,
+        );
+        return getCurrentContext();
+      });
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(context).toMatchObject({
+        correlationId: "cid",
+        tenantId: "tenant-1",
+        user,
+      });
+    });
+  });
+
+  describe("Stacked tenant guards", () => {
+    const buildApp = (user: UserClaims) => {
+      const app = express();
+      app.use((req, _res, next) => {
+        req.user = user;
+        next();
+      });
+      app.use(requireTenant);
+      app.get(
+        "/t/:tenantId/x",
+        createTenantGuard({ tenantParam: "tenantId" }),
+        (req, res) => {
+          res.json({ tenantId: req.tenantId });
+        },
+      );
+      app.use(
+        (err: AppError, _req: Request, res: Response, _next: NextFunction) => {
+          res.status(err.status).json({ message: err.message });
+        },
+      );
+      return app;
+    };
+
+    it("should reject a route param naming another tenant", async () => {
+      const app = buildApp({ userId: "user-1", tenantId: "home" });
+
+      const response = await supertest(app).get("/t/stranger/x");
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ message: "Tenant mismatch" });
+    });
+
+    it("should allow a route param naming the resolved tenant", async () => {
+      const app = buildApp({ userId: "user-1", tenantId: "home" });
+
+      const response = await supertest(app).get("/t/home/x");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tenantId: "home" });
+    });
+
+    it("should check the header a later guard names", () => {
+      mockRequest.user = { userId: "user-1", tenantId: "home" };
+      mockRequest.headers = {};
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+      mockRequest.headers = { "x-org": "stranger" };
+      createTenantGuard({ tenantHeader: "X-Org" })(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 403, message: "Tenant mismatch" }),
+      );
+    });
+  });
+
+  describe("Tenant status", () => {
+    const statuses: Record<string, "active" | "read-only" | "suspended"> = {
+      "tenant-active": "active",
+      "tenant-readonly": "read-only",
+      "tenant-suspended": "suspended",
+    };
+
+    const run = async (
+      tenantId: string,
+      method: string,
+      permissions: string[] = [],
+    ) => {
+      mockRequest.method = method;
+      mockRequest.user = { userId: "user-1", tenantId, permissions };
+      await requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+    };
+
+    beforeEach(() => {
+      registerTenantStatusProvider(async (tenantId) => statuses[tenantId]);
+    });
+
+    afterEach(() => {
+      clearTenantStatusProvider();
+      clearAuditSinks();
+    });
+
+    it("should allow active tenants", async () => {
+      await run("tenant-active", "POST");
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should allow reads for read-only tenants", async () => {
+      await run("tenant-readonly", "GET");
+
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it("should reject writes for read-only tenants", async () => {
+      await run("tenant-readonly", "DELETE");
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          code: ErrorCode.TENANT_READ_ONLY,
+          message: "Tenant is read-only",
+        }),
+      );
+    });
+
+    it("should reject every request for suspended tenants", async () => {
+      await run("tenant-suspended", "GET");
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          code: ErrorCode.TENANT_SUSPENDED,
+          message: "Tenant is suspended",
+        }),
+      );
+    });
+
+    it("should let operators with the bypass permission through", async () => {
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+
+      await run("tenant-suspended", "POST", ["platform:tenant:status-bypass"]);
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(warnSpy).toHaveBeenCalledWith("[Tenant] Tenant status bypassed", {
+        userId: "user-1",
+        tenantId: "tenant-suspended",
+        status: "suspended",
+      });
+      warnSpy.mockRestore();
+    });
+
+    it("should honour a custom bypass permission", async () => {
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+      const guard = createTenantGuard({ statusBypassPermission: "ops:write" });
+      mockRequest.method = "POST";
+      mockRequest.user = {
+        userId: "user-1",
+        tenantId: "tenant-readonly",
+        permissions: ["platform:tenant:status-bypass"],
+      };
+
+      await guard(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ code: ErrorCode.TENANT_READ_ONLY }),
+      );
+      warnSpy.mockRestore();
+    });
+
+    it("should check the status of the effective tenant", async () => {
+      jest.spyOn(console, "warn").mockImplementation();
+      mockRequest.method = "POST";
+      mockRequest.headers = { "x-act-as-tenant": "tenant-suspended" };
+      mockRequest.user = {
+        userId: "operator",
+        tenantId: "tenant-active",
+        permissions: ["platform:tenant:act-as"],
+      };
+
+      await requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ code: ErrorCode.TENANT_SUSPENDED }),
+      );
+      jest.restoreAllMocks();
+    });
+
+    it("should audit status denials", async () => {
+      const sink = jest.fn();
+      addAuditSink(sink);
+
+      await run("tenant-readonly", "PATCH");
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          check: "tenant",
+          outcome: "deny",
+          requirement: "tenant status",
+          reason: "Tenant is read-only",
+          details: { status: "read-only" },
+        }),
+      );
+    });
+  });
+
   describe("enforceTenantOnBody()", () => {
     describe("Spec 5.3.4: Cross-tenant body → 403", () => {
       it("should call next with 403 when body tenantId differs from user tenantId", () => {
@@ -383,4 +622,676 @@ describe("Tenant Isolation Middleware", () => {
       );
     });
   });
+
+  describe("enforceTenant()", () => {
+    const run = (middleware: ReturnType<typeof enforceTenant>) =>
+      middleware(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+    beforeEach(() => {
+      mockRequest.user = { userId: "user-123", tenantId: "tenant-456" };
+    });
+
+    it("should stamp every record of an array body", () => {
+      mockRequest.body = [
+        { name: "a" },
+        { name: "b", tenantId: "tenant-456" },
+        "not-a-record",
+      ];
+
+      run(enforceTenant({ body: "tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.body).toEqual([
+        { name: "a", tenantId: "tenant-456" },
+        { name: "b", tenantId: "tenant-456" },
+        "not-a-record",
+      ]);
+    });
+
+    it("should reject an object body for a []-rooted path", () => {
+      mockRequest.body = { tenantId: "other-tenant" };
+
+      run(enforceTenant({ body: "[].tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 400,
+          message: "Request body does not match tenant path",
+          details: { path: "[].tenantId" },
+        }),
+      );
+    });
+
+    it("should reject an object where a [] segment expects an array", () => {
+      mockRequest.body = { items: { tenantId: "other-tenant" } };
+
+      run(enforceTenant({ body: "items[].tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 400,
+          details: { path: "items[].tenantId" },
+        }),
+      );
+      expect(mockRequest.body).toEqual({ items: { tenantId: "other-tenant" } });
+    });
+
+    it("should reject a scalar where a nested path expects an object", () => {
+      mockRequest.body = { run: "run-1" };
+
+      run(enforceTenant({ body: "run.project.tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 400 }),
+      );
+    });
+
+    it("should still allow missing arrays and intermediate objects", () => {
+      mockRequest.body = { name: "bulk" };
+
+      run(enforceTenant({ body: ["items[].tenantId", "run.tenantId"] }));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.body).toEqual({ name: "bulk" });
+    });
+
+    it("should reject and report mismatching records in an array body", () => {
+      mockRequest.body = [
+        { tenantId: "tenant-456" },
+        { tenantId: "tenant-999" },
+      ];
+
+      run(enforceTenant({ body: "tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          message: "Tenant mismatch",
+          details: {
+            mismatches: [
+              { location: "body", path: "[1].tenantId", value: "tenant-999" },
+            ],
+          },
+        }),
+      );
+      expect(mockRequest.body[0]).toEqual({ tenantId: "tenant-456" });
+    });
+
+    it("should follow nested paths and [] array segments", () => {
+      mockRequest.body = {
+        project: { owner: { tenantId: "tenant-456" } },
+        items: [{ tenantId: "tenant-456" }, {}],
+      };
+
+      run(
+        enforceTenant({
+          body: ["project.owner.tenantId", "items[].tenantId", "meta.tenantId"],
+        }),
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.body).toEqual({
+        project: { owner: { tenantId: "tenant-456" } },
+        items: [{ tenantId: "tenant-456" }, { tenantId: "tenant-456" }],
+      });
+    });
+
+    it("should report every nested mismatch without modifying the body", () => {
+      mockRequest.body = {
+        items: [{ tenantId: "tenant-1" }, { tenantId: "tenant-2" }],
+        tenantId: undefined,
+      };
+
+      run(enforceTenant({ body: ["tenantId", "items[].tenantId"] }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          details: {
+            mismatches: [
+              {
+                location: "body",
+                path: "items[0].tenantId",
+                value: "tenant-1",
+              },
+              {
+                location: "body",
+                path: "items[1].tenantId",
+                value: "tenant-2",
+              },
+            ],
+          },
+        }),
+      );
+      expect(mockRequest.body.tenantId).toBeUndefined();
+    });
+
+    it("should support a leading [] for top-level arrays", () => {
+      mockRequest.body = [{ run: { tenantId: "tenant-9" } }];
+
+      run(enforceTenant({ body: "[].run.tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          details: {
+            mismatches: [
+              { location: "body", path: "[0].run.tenantId", value: "tenant-9" },
+            ],
+          },
+        }),
+      );
+    });
+
+    it("should leave missing fields alone when fillMissing is false", () => {
+      mockRequest.body = { name: "x" };
+
+      run(enforceTenant({ body: "tenantId", fillMissing: false }));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.body).toEqual({ name: "x" });
+    });
+
+    it("should check route params", () => {
+      mockRequest.params = { tenantId: "tenant-999" };
+
+      run(enforceTenant({ params: "tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          details: {
+            mismatches: [
+              { location: "params", path: "tenantId", value: "tenant-999" },
+            ],
+          },
+        }),
+      );
+    });
+
+    it("should check query strings, including repeated keys", () => {
+      mockRequest.query = { tenantId: ["tenant-456", "tenant-999"] };
+
+      run(enforceTenant({ query: "tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          details: {
+            mismatches: [
+              {
+                location: "query",
+                path: "tenantId",
+                value: ["tenant-456", "tenant-999"],
+              },
+            ],
+          },
+        }),
+      );
+    });
+
+    it("should pass matching params and query without touching them", () => {
+      mockRequest.params = { tenantId: "tenant-456" };
+      mockRequest.query = { tenantId: "tenant-456", page: "2" };
+
+      run(enforceTenant({ params: "tenantId", query: ["tenantId", "orgId"] }));
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.query).toEqual({ tenantId: "tenant-456", page: "2" });
+      expect(mockRequest.body).toBeUndefined();
+    });
+
+    it("should return 401 without tenant context", () => {
+      mockRequest.user = undefined;
+
+      run(enforceTenant({ query: "tenantId" }));
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+
+    it("should reject invalid configuration at construction", () => {
+      expect(() => enforceTenant({})).toThrow(
+        "At least one tenant location is required",
+      );
+      expect(() => enforceTenant({ body: "items[]" })).toThrow(
+        "Invalid tenant path",
+      );
+      expect(() => enforceTenant({ body: "a..b" })).toThrow(
+        "Invalid tenant path",
+      );
+      expect(() => enforceTenant({ body: "__proto__.tenantId" })).toThrow(
+        "Invalid tenant path",
+      );
+    });
+  });
+
+  describe("Cross-tenant operator access", () => {
+    const operator = {
+      userId: "support-1",
+      tenantId: "tenant-platform",
+      permissions: [ACT_AS_TENANT_PERMISSION],
+    };
+    let warnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      warnSpy = jest.spyOn(console, "warn").mockImplementation();
+    });
+
+    afterEach(() => {
+      warnSpy.mockRestore();
+      clearAuditSinks();
+    });
+
+    it("should resolve X-Act-As-Tenant into req.tenantId for operators", () => {
+      mockRequest.user = operator;
+      mockRequest.headers = { "x-act-as-tenant": "tenant-customer" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.tenantId).toBe("tenant-customer");
+      expect(mockRequest.realTenantId).toBe("tenant-platform");
+      expect(warnSpy).toHaveBeenCalledWith("[Tenant] Cross-tenant access", {
+        userId: "support-1",
+        realTenantId: "tenant-platform",
+        effectiveTenantId: "tenant-customer",
+      });
+    });
+
+    it("should reject the header without the privileged permission", () => {
+      mockRequest.user = { userId: "user-123", tenantId: "tenant-456" };
+      mockRequest.headers = { "x-act-as-tenant": "tenant-customer" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          code: ErrorCode.FORBIDDEN,
+          message: "Cross-tenant access not permitted",
+        }),
+      );
+      expect(mockRequest.tenantId).toBeUndefined();
+    });
+
+    it("should reject an empty header with 400", () => {
+      mockRequest.user = operator;
+      mockRequest.headers = { "x-act-as-tenant": " " };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 400 }),
+      );
+    });
+
+    it("should ignore a header naming the user's own tenant", () => {
+      mockRequest.user = { userId: "user-123", tenantId: "tenant-456" };
+      mockRequest.headers = { "x-act-as-tenant": "tenant-456" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.tenantId).toBe("tenant-456");
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it("should match later tenant checks against the effective tenant", () => {
+      mockRequest.user = operator;
+      mockRequest.headers = { "x-act-as-tenant": "tenant-customer" };
+      mockRequest.body = { tenantId: "tenant-customer" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+      enforceTenantOnBody()(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenNthCalledWith(2);
+      expect(() =>
+        assertTenantMatch(mockRequest as Request, "tenant-customer"),
+      ).not.toThrow();
+      expect(() =>
+        assertTenantMatch(mockRequest as Request, "tenant-platform"),
+      ).toThrow("Tenant mismatch");
+    });
+
+    it("should support a custom header, permission and role grants", () => {
+      mockRequest.user = {
+        userId: "support-1",
+        tenantId: "tenant-platform",
+        role: "support",
+      };
+      mockRequest.headers = { "x-support-tenant": "tenant-customer" };
+
+      createTenantGuard({
+        actAsHeader: "X-Support-Tenant",
+        actAsPermission: "support:impersonate",
+        roles: createRoleRegistry({
+          support: { permissions: ["support:*"] },
+        }),
+      })(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.tenantId).toBe("tenant-customer");
+    });
+
+    it("should audit the real and effective tenant", () => {
+      const sink = jest.fn();
+      addAuditSink(sink);
+      mockRequest.user = operator;
+      mockRequest.headers = { "x-act-as-tenant": "tenant-customer" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          requirement: "act-as-tenant",
+          outcome: "allow",
+          details: {
+            realTenantId: "tenant-platform",
+            effectiveTenantId: "tenant-customer",
+          },
+        }),
+      );
+      expect(sink).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          requirement: "tenant context",
+          tenantId: "tenant-customer",
+          realTenantId: "tenant-platform",
+        }),
+      );
+    });
+
+    it("should audit rejected act-as attempts", () => {
+      const sink = jest.fn();
+      addAuditSink(sink);
+      mockRequest.user = { userId: "user-123", tenantId: "tenant-456" };
+      mockRequest.headers = { "x-act-as-tenant": "tenant-customer" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          requirement: "act-as-tenant",
+          outcome: "deny",
+          reason: "Cross-tenant access not permitted",
+        }),
+      );
+    });
+  });
+
+  describe("Tenant memberships", () => {
+    const consultant: UserClaims = {
+      userId: "consultant-1",
+      tenantId: "tenant-vendor",
+      permissions: ["project:*"],
+      memberships: [
+        {
+          tenantId: "tenant-client-a",
+          role: "qa",
+          permissions: ["results:write"],
+        },
+        { tenantId: "tenant-client-b" },
+      ],
+    };
+
+    beforeEach(() => {
+      mockRequest.user = consultant;
+    });
+
+    it("should select a membership via the X-Tenant-Id header", () => {
+      mockRequest.headers = { "x-tenant-id": "tenant-client-a" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.tenantId).toBe("tenant-client-a");
+      expect(mockRequest.membership).toEqual(consultant.memberships![0]);
+    });
+
+    it("should select a membership via a path parameter", () => {
+      mockRequest.params = { tenantId: "tenant-client-b" };
+
+      createTenantGuard({ tenantParam: "tenantId" })(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith();
+      expect(mockRequest.tenantId).toBe("tenant-client-b");
+    });
+
+    it("should default to the home tenant without a selection", () => {
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(mockRequest.tenantId).toBe("tenant-vendor");
+      expect(mockRequest.membership).toBeUndefined();
+    });
+
+    it("should reject tenants the user is not a member of", () => {
+      mockRequest.headers = { "x-tenant-id": "tenant-other" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 403,
+          message: "Not a member of this tenant",
+        }),
+      );
+      expect(mockRequest.tenantId).toBeUndefined();
+    });
+
+    it("should reject a header that disagrees with the path parameter", () => {
+      mockRequest.headers = { "x-tenant-id": "tenant-client-a" };
+      mockRequest.params = { tenantId: "tenant-client-b" };
+
+      createTenantGuard({ tenantParam: "tenantId" })(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 403, message: "Tenant mismatch" }),
+      );
+    });
+
+    it("should match later tenant checks against the selected membership", () => {
+      mockRequest.headers = { "x-tenant-id": "tenant-client-a" };
+      mockRequest.body = { tenantId: "tenant-vendor" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+      enforceTenantOnBody()(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(nextFunction).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 403, message: "Tenant mismatch" }),
+      );
+      expect(() =>
+        assertTenantMatch(mockRequest as Request, "tenant-client-a"),
+      ).not.toThrow();
+    });
+  });
+
+  describe("Audit events", () => {
+    let sink: jest.Mock;
+
+    beforeEach(() => {
+      sink = jest.fn();
+      addAuditSink(sink);
+    });
+
+    afterEach(() => clearAuditSinks());
+
+    it("should record requireTenant outcomes", () => {
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+      mockRequest.user = { userId: "user-123", tenantId: "tenant-456" };
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink.mock.calls.map(([event]) => event)).toEqual([
+        expect.objectContaining({
+          check: "tenant",
+          outcome: "deny",
+          requirement: "tenant context",
+          reason: "Tenant context required",
+        }),
+        expect.objectContaining({
+          outcome: "allow",
+          tenantId: "tenant-456",
+        }),
+      ]);
+    });
+
+    it("should record one event for a rejected act-as attempt", () => {
+      mockRequest.headers = { "x-act-as-tenant": "tenant-other" };
+      mockRequest.user = { userId: "user-123", tenantId: "tenant-456" };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink).toHaveBeenCalledTimes(1);
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: "deny",
+          requirement: "act-as-tenant",
+          reason: "Cross-tenant access not permitted",
+        }),
+      );
+    });
+
+    it("should record one event for a rejected membership selection", () => {
+      mockRequest.headers = { "x-tenant-id": "tenant-other" };
+      mockRequest.user = {
+        userId: "user-123",
+        tenantId: "tenant-456",
+        memberships: [{ tenantId: "tenant-456" }],
+      };
+
+      requireTenant(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+      enforceTenant({ body: "tenantId" })(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink).toHaveBeenCalledTimes(2);
+      expect(sink.mock.calls.map(([event]) => event.requirement)).toEqual([
+        "tenant membership",
+        "tenant membership",
+      ]);
+    });
+
+    it("should record body tenant mismatches", () => {
+      mockRequest.user = { userId: "user-123", tenantId: "tenant-456" };
+      mockRequest.body = { tenantId: "tenant-other" };
+
+      enforceTenantOnBody()(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction,
+      );
+
+      expect(sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: "deny",
+          requirement: "body.tenantId",
+          reason: "Tenant mismatch",
+          details: {
+            mismatches: [
+              { location: "body", path: "tenantId", value: "tenant-other" },
+            ],
+          },
+        }),
+      );
+    });
+
+    it("should record assertTenantMatch outcomes", () => {
+      mockRequest.user = { userId: "user-123", tenantId: "tenant-456" };
+
+      assertTenantMatch(mockRequest as Request, "tenant-456");
+      expect(() =>
+        assertTenantMatch(mockRequest as Request, "tenant-other"),
+      ).toThrow("Tenant mismatch");
+
+      expect(sink.mock.calls.map(([event]) => event.outcome)).toEqual([
+        "allow",
+        "deny",
+      ]);
+      expect(sink).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          requirement: "tenant match",
+          details: { targetTenantId: "tenant-other" },
+        }),
+      );
+    });
+  });
 });
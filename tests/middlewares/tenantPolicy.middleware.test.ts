@@ -0,0 +1,132 @@
+import { Request, Response } from "express";
+
+import { rateLimit } from "../../src/middlewares/rateLimit.middleware";
+import { requireTenantFeature } from "../../src/middlewares/tenantPolicy.middleware";
+import { ErrorCode } from "../../src/types/api";
+import { addAuditSink, clearAuditSinks } from "../../src/utils/audit";
+import { getGuardDeclaration } from "../../src/utils/routeManifest";
+import {
+  clearTenantPolicyResolver,
+  registerTenantPolicyResolver,
+} from "../../src/utils/tenantPolicy";
+
+describe("requireTenantFeature()", () => {
+  let req: Partial<Request>;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      user: { userId: "user-1", tenantId: "tenant-1" },
+      tenantId: "tenant-1",
+      method: "GET",
+      originalUrl: "/reports/export",
+    };
+    next = jest.fn();
+    registerTenantPolicyResolver(async (tenantId) =>
+      tenantId === "tenant-1" ? { features: ["export"] } : { features: [] },
+    );
+  });
+
+  afterEach(() => {
+    clearTenantPolicyResolver();
+    clearAuditSinks();
+  });
+
+  it("should reject an empty feature flag at construction", () => {
+    expect(() => requireTenantFeature("")).toThrow("Feature flag is required");
+  });
+
+  it("should allow tenants with the feature", async () => {
+    await requireTenantFeature("export")(req as Request, {} as Response, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("should reject tenants without the feature", async () => {
+    req.tenantId = "tenant-2";
+
+    await requireTenantFeature("export")(req as Request, {} as Response, next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 403,
+        code: ErrorCode.FORBIDDEN,
+        message: "Feature not enabled for tenant",
+        details: { feature: "export" },
+      }),
+    );
+  });
+
+  it("should require a tenant context", async () => {
+    req = {};
+
+    await requireTenantFeature("export")(req as Request, {} as Response, next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 401,
+        message: "Tenant context required",
+      }),
+    );
+  });
+
+  it("should not reuse a policy resolved before authentication", async () => {
+    const user = req.user;
+    req = { ip: "10.0.0.1", headers: {}, method: "GET" };
+
+    await rateLimit({ max: 100, tenantPolicy: true })(
+      req as Request,
+      {} as Response,
+      next,
+    );
+    req.user = user;
+    req.tenantId = "tenant-1";
+    await requireTenantFeature("export")(req as Request, {} as Response, next);
+
+    expect(next).toHaveBeenLastCalledWith();
+  });
+
+  it("should deny when the resolver fails", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation();
+    registerTenantPolicyResolver(async () => {
+      throw new Error("db down");
+    });
+
+    await requireTenantFeature("export")(req as Request, {} as Response, next);
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ status: 403 }));
+    errorSpy.mockRestore();
+  });
+
+  it("should deny when no resolver is registered", async () => {
+    clearTenantPolicyResolver();
+
+    await requireTenantFeature("export")(req as Request, {} as Response, next);
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ status: 403 }));
+  });
+
+  it("should audit the decision", async () => {
+    const sink = jest.fn();
+    addAuditSink(sink);
+    req.tenantId = "tenant-2";
+
+    await requireTenantFeature("export")(req as Request, {} as Response, next);
+
+    expect(sink).toHaveBeenCalledWith(
+      expect.objectContaining({
+        check: "tenant",
+        outcome: "deny",
+        requirement: "feature:export",
+        tenantId: "tenant-2",
+      }),
+    );
+  });
+
+  it("should declare a feature guard", () => {
+    expect(getGuardDeclaration(requireTenantFeature("export"))).toEqual({
+      kind: "feature",
+      requirement: "feature:export",
+    });
+  });
+});
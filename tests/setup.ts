@@ -1,4 +1,5 @@
 process.env.JWT_SECRET = "test-secret-key-for-jwt-validation";
+process.env.SERVICE_JWT_SECRET = "test-secret-key-for-service-tokens";
 process.env.NODE_ENV = "test";
 import { stopCacheCleanup } from "../src/utils/cacheCleanup";
 
@@ -0,0 +1,172 @@
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { Request } from "express";
+
+import {
+  addAuditSink,
+  AuthorizationAuditEvent,
+  clearAuditSinks,
+  createFileAuditSink,
+  recordAuthorizationDecision,
+  stdoutAuditSink,
+} from "../../src/utils/audit";
+
+describe("Authorization Audit", () => {
+  const request = (overrides: Partial<Request> = {}): Request =>
+    ({
+      method: "PUT",
+      baseUrl: "/api/projects",
+      route: { path: "/:id" },
+      originalUrl: "/api/projects/p-1?x=1",
+      correlationId: "cid-1",
+      user: { userId: "user-1", tenantId: "tenant-1" },
+      ...overrides,
+    }) as unknown as Request;
+
+  afterEach(() => clearAuditSinks());
+
+  it("should deliver structured events to every sink", () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    addAuditSink(first);
+    addAuditSink(second);
+
+    recordAuthorizationDecision(request(), {
+      check: "permission",
+      outcome: "deny",
+      requirement: "project:write",
+      reason: "Forbidden",
+      details: { missing: ["project:write"] },
+    });
+
+    const event = first.mock.calls[0][0] as AuthorizationAuditEvent;
+    expect(event).toEqual({
+      type: "authorization",
+      timestamp: expect.any(String),
+      check: "permission",
+      outcome: "deny",
+      requirement: "project:write",
+      reason: "Forbidden",
+      details: { missing: ["project:write"] },
+      userId: "user-1",
+      serviceId: undefined,
+      tenantId: "tenant-1",
+      method: "PUT",
+      route: "/api/projects/:id",
+      correlationId: "cid-1",
+    });
+    expect(new Date(event.timestamp).toISOString()).toBe(event.timestamp);
+    expect(second).toHaveBeenCalledWith(event);
+  });
+
+  it("should fall back to the request path without a matched route", () => {
+    const sink = jest.fn();
+    addAuditSink(sink);
+
+    recordAuthorizationDecision(request({ route: undefined }), {
+      check: "tenant",
+      outcome: "allow",
+      requirement: "tenant context",
+    });
+
+    expect(sink).toHaveBeenCalledWith(
+      expect.objectContaining({ route: "/api/projects/p-1" }),
+    );
+  });
+
+  it("should prefer req.tenantId and record the calling service", () => {
+    const sink = jest.fn();
+    addAuditSink(sink);
+
+    recordAuthorizationDecision(
+      request({ tenantId: "tenant-2", service: { serviceId: "runner" } }),
+      { check: "tenant", outcome: "allow", requirement: "tenant match" },
+    );
+
+    expect(sink).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: "tenant-2", serviceId: "runner" }),
+    );
+  });
+
+  it("should stop delivering after a sink is removed", () => {
+    const sink = jest.fn();
+    const remove = addAuditSink(sink);
+    remove();
+
+    recordAuthorizationDecision(request(), {
+      check: "policy",
+      outcome: "allow",
+      requirement: "project.edit",
+    });
+
+    expect(sink).not.toHaveBeenCalled();
+  });
+
+  it("should isolate failing sinks", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation();
+    const healthy = jest.fn();
+    addAuditSink(() => {
+      throw new Error("sync failure");
+    });
+    addAuditSink(() => Promise.reject(new Error("async failure")));
+    addAuditSink(healthy);
+
+    recordAuthorizationDecision(request(), {
+      check: "permission",
+      outcome: "allow",
+      requirement: "project:read",
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(healthy).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+
+  it("should write one JSON line per event to stdout", () => {
+    const writeSpy = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    addAuditSink(stdoutAuditSink);
+
+    recordAuthorizationDecision(request(), {
+      check: "permission",
+      outcome: "allow",
+      requirement: "project:read",
+    });
+
+    const line = writeSpy.mock.calls[0][0] as string;
+    writeSpy.mockRestore();
+    expect(line.endsWith("\n")).toBe(true);
+    expect(JSON.parse(line)).toMatchObject({
+      outcome: "allow",
+      requirement: "project:read",
+    });
+  });
+
+  it("should append JSON lines to a file", async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "audit-")), "audit.log");
+    const sink = createFileAuditSink(path);
+    addAuditSink(sink);
+
+    recordAuthorizationDecision(request(), {
+      check: "permission",
+      outcome: "allow",
+      requirement: "a:b",
+    });
+    recordAuthorizationDecision(request(), {
+      check: "permission",
+      outcome: "deny",
+      requirement: "c:d",
+    });
+    await sink.close();
+
+    const lines = readFileSync(path, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).requirement)).toEqual([
+      "a:b",
+      "c:d",
+    ]);
+  });
+});
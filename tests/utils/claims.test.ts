@@ -0,0 +1,131 @@
+import {
+  createClaimsMapper,
+  standardClaimsMapper,
+  validateUserClaims,
+} from "../../src/utils/claims";
+import { ErrorCode } from "../../src/types/api";
+
+describe("Claims Utils", () => {
+  describe("validateUserClaims()", () => {
+    it("should accept a well-formed payload", () => {
+      const claims = validateUserClaims({
+        userId: "user-1",
+        tenantId: "tenant-1",
+        role: "admin",
+        roleId: "role-1",
+        permissions: ["users.read"],
+        email: "a@example.com",
+      });
+
+      expect(claims).toEqual({
+        userId: "user-1",
+        tenantId: "tenant-1",
+        role: "admin",
+        roleId: "role-1",
+        permissions: ["users.read"],
+        email: "a@example.com",
+      });
+    });
+
+    it("should strip registered JWT claims and unknown fields", () => {
+      const claims = validateUserClaims({
+        userId: "user-1",
+        tenantId: "tenant-1",
+        iat: 1,
+        exp: 2,
+        extra: "x",
+      });
+
+      expect(claims).toEqual({ userId: "user-1", tenantId: "tenant-1" });
+    });
+
+    it.each([
+      [{ tenantId: "t" }],
+      [{ userId: "u" }],
+      [{ userId: "", tenantId: "t" }],
+      [{ userId: 42, tenantId: "t" }],
+      [{ userId: "u", tenantId: "t", permissions: "admin" }],
+      [{ userId: "u", tenantId: "t", permissions: [1, 2] }],
+      [{ userId: "u", tenantId: "t", role: ["admin"] }],
+      [{ userId: "u", tenantId: "t", memberships: [{ role: "qa" }] }],
+      [{ userId: "u", tenantId: "t", memberships: "tenant-2" }],
+    ])("should reject malformed payload %j", (payload) => {
+      expect(() => validateUserClaims(payload)).toThrow(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Invalid token claims",
+        }),
+      );
+    });
+
+    it("should accept tenant memberships", () => {
+      const claims = validateUserClaims({
+        userId: "user-1",
+        tenantId: "tenant-1",
+        memberships: [
+          { tenantId: "tenant-2", role: "qa", permissions: ["results:write"] },
+          { tenantId: "tenant-3", extra: true },
+        ],
+      });
+
+      expect(claims.memberships).toEqual([
+        { tenantId: "tenant-2", role: "qa", permissions: ["results:write"] },
+        { tenantId: "tenant-3" },
+      ]);
+    });
+
+    it("should validate the mapper output rather than the raw payload", () => {
+      const mapper = () => ({ userId: "mapped", tenantId: "mapped-tenant" });
+
+      expect(validateUserClaims({}, mapper)).toEqual({
+        userId: "mapped",
+        tenantId: "mapped-tenant",
+      });
+    });
+  });
+
+  describe("createClaimsMapper()", () => {
+    it("should read renamed claims and fall back to default names", () => {
+      const mapper = createClaimsMapper({ userId: "uid", tenantId: "org" });
+
+      expect(
+        mapper({ uid: "u", org: "t", role: "viewer", permissions: ["a"] }),
+      ).toEqual(
+        expect.objectContaining({
+          userId: "u",
+          tenantId: "t",
+          role: "viewer",
+          permissions: ["a"],
+        }),
+      );
+    });
+
+    it("should split space-delimited scope strings into permissions", () => {
+      const mapper = createClaimsMapper({ permissions: "scope" });
+
+      expect(mapper({ scope: "a:read  b:write" })).toEqual(
+        expect.objectContaining({ permissions: ["a:read", "b:write"] }),
+      );
+    });
+
+    it("should keep array-valued renamed permission claims", () => {
+      const mapper = createClaimsMapper({ permissions: "perms" });
+
+      expect(mapper({ perms: ["a", "b"] })).toEqual(
+        expect.objectContaining({ permissions: ["a", "b"] }),
+      );
+    });
+  });
+
+  describe("standardClaimsMapper", () => {
+    it("should map sub, tid and scope", () => {
+      expect(
+        validateUserClaims(
+          { sub: "u", tid: "t", scope: "projects:read" },
+          standardClaimsMapper,
+        ),
+      ).toEqual({ userId: "u", tenantId: "t", permissions: ["projects:read"] });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  getCurrentContext,
+  runWithContext,
+  updateCurrentContext,
+} from "../../src/utils/context";
+
+describe("Request context", () => {
+  it("should return undefined outside a context", () => {
+    expect(getCurrentContext()).toBeUndefined();
+  });
+
+  it("should expose the context inside runWithContext", () => {
+    const result = runWithContext({ correlationId: "cid-1" }, () => {
+      const context = getCurrentContext();
+      expect(context?.correlationId).toBe("cid-1");
+      expect(typeof context?.startTime).toBe("number");
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(getCurrentContext()).toBeUndefined();
+  });
+
+  it("should keep an explicit start time", () => {
+    runWithContext({ startTime: 42 }, () => {
+      expect(getCurrentContext()?.startTime).toBe(42);
+    });
+  });
+
+  it("should follow async continuations", async () => {
+    await runWithContext({ correlationId: "cid-async" }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(getCurrentContext()?.correlationId).toBe("cid-async");
+    });
+  });
+
+  it("should isolate concurrent contexts", async () => {
+    const read = (cid: string, delay: number) =>
+      runWithContext({ correlationId: cid }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return getCurrentContext()?.correlationId;
+      });
+
+    await expect(Promise.all([read("a", 5), read("b", 1)])).resolves.toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("should update the active context", () => {
+    runWithContext({ correlationId: "cid" }, () => {
+      updateCurrentContext({ tenantId: "tenant-1" });
+      expect(getCurrentContext()).toMatchObject({
+        correlationId: "cid",
+        tenantId: "tenant-1",
+      });
+    });
+  });
+
+  it("should ignore updates outside a context", () => {
+    expect(() => updateCurrentContext({ tenantId: "tenant-1" })).not.toThrow();
+    expect(getCurrentContext()).toBeUndefined();
+  });
+});
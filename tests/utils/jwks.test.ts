@@ -0,0 +1,251 @@
+import { generateKeyPairSync } from "crypto";
+import { writeFileSync, mkdtempSync } from "fs";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Server } from "http";
+
+import express, { Request, Response } from "express";
+
+import { requestContext } from "../../src/middlewares/requestContext.middleware";
+import {
+  createJwksKeyResolver,
+  isJwkCompatible,
+  Jwk,
+} from "../../src/utils/jwks";
+
+const rsaJwk = (kid: string): Jwk => {
+  const { publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return { ...publicKey.export({ format: "jwk" }), kid, use: "sig" } as Jwk;
+};
+
+const ecJwk = (kid: string): Jwk => {
+  const { publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  return { ...publicKey.export({ format: "jwk" }), kid } as Jwk;
+};
+
+describe("JWKS Key Resolver", () => {
+  let server: Server;
+  let jwksUri: string;
+  let keys: Jwk[];
+  let hits: number;
+  let failing: boolean;
+  let received: Record<string, string | string[] | undefined>;
+
+  beforeAll((done) => {
+    const app = express();
+    app.get("/.well-known/jwks.json", (req, res) => {
+      hits += 1;
+      received = req.headers;
+      if (failing) return res.status(500).json({});
+      res.json({ keys });
+    });
+    server = app.listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      jwksUri = `http://127.0.0.1:${port}/.well-known/jwks.json`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    keys = [rsaJwk("rsa-1"), ecJwk("ec-1")];
+    hits = 0;
+    failing = false;
+    received = {};
+  });
+
+  describe("isJwkCompatible()", () => {
+    it("should match RSA keys to RS and PS algorithms", () => {
+      const jwk = rsaJwk("k");
+      expect(isJwkCompatible(jwk, "RS256")).toBe(true);
+      expect(isJwkCompatible(jwk, "PS384")).toBe(true);
+      expect(isJwkCompatible(jwk, "ES256")).toBe(false);
+    });
+
+    it("should match EC keys by curve", () => {
+      const jwk = ecJwk("k");
+      expect(isJwkCompatible(jwk, "ES256")).toBe(true);
+      expect(isJwkCompatible(jwk, "ES384")).toBe(false);
+      expect(isJwkCompatible(jwk, "RS256")).toBe(false);
+    });
+
+    it("should reject symmetric and none algorithms", () => {
+      const jwk = rsaJwk("k");
+      expect(isJwkCompatible(jwk, "HS256")).toBe(false);
+      expect(isJwkCompatible(jwk, "none")).toBe(false);
+    });
+
+    it("should honour alg and use pinned on the key", () => {
+      expect(isJwkCompatible({ ...rsaJwk("k"), alg: "RS512" }, "RS256")).toBe(
+        false,
+      );
+      expect(isJwkCompatible({ ...rsaJwk("k"), use: "enc" }, "RS256")).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("createJwksKeyResolver()", () => {
+    it("should require a JWKS source", () => {
+      expect(() => createJwksKeyResolver({})).toThrow("JWKS source required");
+    });
+
+    it("should resolve a key by kid from a URL", async () => {
+      const resolver = createJwksKeyResolver({ jwksUri });
+
+      const key = await resolver.getKey("rsa-1", "RS256");
+
+      expect(key.type).toBe("public");
+      expect(key.asymmetricKeyType).toBe("rsa");
+    });
+
+    it("should cache keys between lookups", async () => {
+      const resolver = createJwksKeyResolver({ jwksUri });
+
+      await resolver.getKey("rsa-1", "RS256");
+      await resolver.getKey("ec-1", "ES256");
+
+      expect(hits).toBe(1);
+    });
+
+    it("should refresh once when an unknown kid appears", async () => {
+      const resolver = createJwksKeyResolver({
+        jwksUri,
+        minRefreshIntervalMs: 0,
+      });
+      await resolver.getKey("rsa-1", "RS256");
+
+      keys.push(rsaJwk("rsa-2"));
+      const key = await resolver.getKey("rsa-2", "RS256");
+
+      expect(key).toBeDefined();
+      expect(hits).toBe(2);
+    });
+
+    it("should throttle refreshes for repeated unknown kids", async () => {
+      const resolver = createJwksKeyResolver({ jwksUri });
+      await resolver.getKey("rsa-1", "RS256");
+
+      await expect(resolver.getKey("nope", "RS256")).rejects.toMatchObject({
+        status: 401,
+      });
+      await expect(resolver.getKey("nope", "RS256")).rejects.toMatchObject({
+        status: 401,
+      });
+
+      expect(hits).toBe(1);
+    });
+
+    it("should reject a kid whose key type does not match the algorithm", async () => {
+      const resolver = createJwksKeyResolver({ jwksUri });
+
+      await expect(resolver.getKey("rsa-1", "ES256")).rejects.toMatchObject({
+        status: 401,
+        message: "Unknown signing key",
+      });
+    });
+
+    it("should reject symmetric algorithms outright", async () => {
+      const resolver = createJwksKeyResolver({ jwksUri });
+
+      await expect(resolver.getKey("rsa-1", "HS256")).rejects.toMatchObject({
+        status: 401,
+      });
+      expect(hits).toBe(0);
+    });
+
+    it("should pick the only compatible key when kid is absent", async () => {
+      const resolver = createJwksKeyResolver({ jwksUri });
+
+      const key = await resolver.getKey(undefined, "ES256");
+
+      expect(key.asymmetricKeyType).toBe("ec");
+    });
+
+    it("should surface 503 when the JWKS endpoint is down and nothing is cached", async () => {
+      failing = true;
+      const resolver = createJwksKeyResolver({ jwksUri });
+
+      await expect(resolver.getKey("rsa-1", "RS256")).rejects.toMatchObject({
+        status: 503,
+        message: "Signing keys unavailable",
+      });
+    });
+
+    it("should throttle fetches while the JWKS endpoint is down", async () => {
+      failing = true;
+      const resolver = createJwksKeyResolver({
+        jwksUri,
+        minRefreshIntervalMs: 60_000,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(resolver.getKey("rsa-1", "RS256")).rejects.toMatchObject({
+          status: 503,
+          message: "Signing keys unavailable",
+        });
+      }
+      expect(hits).toBe(1);
+    });
+
+    it("should retry an empty cache once the refresh interval has passed", async () => {
+      failing = true;
+      const resolver = createJwksKeyResolver({
+        jwksUri,
+        minRefreshIntervalMs: 0,
+      });
+      await expect(resolver.getKey("rsa-1", "RS256")).rejects.toMatchObject({
+        status: 503,
+      });
+
+      failing = false;
+      await expect(resolver.getKey("rsa-1", "RS256")).resolves.toBeDefined();
+      expect(hits).toBe(2);
+    });
+
+    it("should keep serving cached keys when a refresh fails", async () => {
+      const resolver = createJwksKeyResolver({ jwksUri, cacheTtlMs: 0 });
+      await resolver.getKey("rsa-1", "RS256");
+
+      failing = true;
+      await resolver.refresh();
+
+      await expect(resolver.getKey("rsa-1", "RS256")).resolves.toBeDefined();
+    });
+
+    it("should not forward the caller's headers to the JWKS endpoint", async () => {
+      const resolver = createJwksKeyResolver({ jwksUri });
+      const req = {
+        header: (name: string) =>
+          name === "x-correlation-id" ? "cid-1" : undefined,
+        headers: { authorization: "Bearer caller-token" },
+      } as unknown as Request;
+      const res = { setHeader: jest.fn() } as unknown as Response;
+
+      await new Promise<void>((resolve, reject) => {
+        requestContext(req, res, () => {
+          resolver.getKey("rsa-1", "RS256").then(() => resolve(), reject);
+        });
+      });
+
+      expect(hits).toBe(1);
+      expect(received.authorization).toBeUndefined();
+      expect(received["x-correlation-id"]).toBeUndefined();
+    });
+
+    it("should load keys from a JWKS file", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "jwks-"));
+      const file = join(dir, "jwks.json");
+      writeFileSync(file, JSON.stringify({ keys }));
+
+      const resolver = createJwksKeyResolver({ jwksFile: file });
+
+      await expect(resolver.getKey("ec-1", "ES256")).resolves.toBeDefined();
+      expect(hits).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import {
+  createKeyring,
+  getCurrentSigningKey,
+  loadKeyringFromEnv,
+  loadKeyringFromFile,
+  recordSigningKeyUsage,
+  selectSigningKeys,
+} from "../../src/utils/keyring";
+
+describe("Keyring Utils", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  describe("createKeyring()", () => {
+    it("should require a current key", () => {
+      expect(() =>
+        createKeyring([{ secret: "old", deprecated: true }]),
+      ).toThrow("at least one current key");
+    });
+
+    it("should reject empty secrets", () => {
+      expect(() => createKeyring([{ secret: "" }])).toThrow("require a secret");
+    });
+
+    it("should reject duplicate kids", () => {
+      expect(() =>
+        createKeyring([
+          { kid: "a", secret: "1" },
+          { kid: "a", secret: "2", deprecated: true },
+        ]),
+      ).toThrow("unique");
+    });
+  });
+
+  describe("selectSigningKeys()", () => {
+    const keyring = createKeyring([
+      { kid: "old", secret: "s-old", deprecated: true, notAfter: 2_000 },
+      { kid: "new", secret: "s-new" },
+    ]);
+
+    it("should return current keys before deprecated ones", () => {
+      expect(selectSigningKeys(keyring, undefined, 1_000)).toEqual([
+        expect.objectContaining({ kid: "new" }),
+        expect.objectContaining({ kid: "old" }),
+      ]);
+    });
+
+    it("should select by kid", () => {
+      expect(selectSigningKeys(keyring, "old", 1_000)).toEqual([
+        expect.objectContaining({ kid: "old" }),
+      ]);
+      expect(selectSigningKeys(keyring, "unknown", 1_000)).toEqual([]);
+    });
+
+    it("should drop keys whose grace window has passed", () => {
+      expect(selectSigningKeys(keyring, undefined, 2_000)).toEqual([
+        expect.objectContaining({ kid: "new" }),
+      ]);
+      expect(selectSigningKeys(keyring, "old", 2_000)).toEqual([]);
+    });
+
+    it("should ignore the token kid when keys carry none", () => {
+      const unnamed = createKeyring([{ secret: "a" }]);
+      expect(selectSigningKeys(unnamed, "whatever")).toHaveLength(1);
+    });
+  });
+
+  describe("getCurrentSigningKey()", () => {
+    it("should return the first non-deprecated key", () => {
+      const keyring = createKeyring([
+        { kid: "old", secret: "1", deprecated: true },
+        { kid: "new", secret: "2" },
+      ]);
+      expect(getCurrentSigningKey(keyring).kid).toBe("new");
+    });
+  });
+
+  describe("recordSigningKeyUsage()", () => {
+    it("should log and notify when a deprecated key is used", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      const onDeprecatedKey = jest.fn();
+      const keyring = createKeyring(
+        [
+          { kid: "new", secret: "1" },
+          { kid: "old", secret: "2", deprecated: true, notAfter: 5 },
+        ],
+        { onDeprecatedKey },
+      );
+
+      recordSigningKeyUsage(keyring, keyring.keys[0]);
+      expect(onDeprecatedKey).not.toHaveBeenCalled();
+
+      recordSigningKeyUsage(keyring, keyring.keys[1]);
+      expect(onDeprecatedKey).toHaveBeenCalledWith({ kid: "old", notAfter: 5 });
+      expect(warn).toHaveBeenCalledWith(
+        "[Keyring] Token verified with deprecated signing key",
+        { kid: "old", notAfter: 5 },
+      );
+      expect(JSON.stringify(warn.mock.calls)).not.toContain('"2"');
+    });
+  });
+
+  describe("loadKeyringFromEnv()", () => {
+    it("should load current and previous secrets", () => {
+      process.env.JWT_SECRET = "current";
+      process.env.JWT_SECRET_KID = "k2";
+      process.env.JWT_PREVIOUS_SECRET = "previous";
+      process.env.JWT_PREVIOUS_SECRET_KID = "k1";
+      process.env.JWT_PREVIOUS_SECRET_NOT_AFTER = "2030-01-01T00:00:00Z";
+
+      const keyring = loadKeyringFromEnv();
+
+      expect(keyring.keys).toEqual([
+        { kid: "k2", secret: "current" },
+        {
+          kid: "k1",
+          secret: "previous",
+          deprecated: true,
+          notAfter: Date.parse("2030-01-01T00:00:00Z"),
+        },
+      ]);
+    });
+
+    it("should support a custom prefix", () => {
+      process.env.SERVICE_JWT_SECRET = "svc";
+
+      expect(loadKeyringFromEnv("SERVICE_JWT").keys).toEqual([
+        { kid: undefined, secret: "svc" },
+      ]);
+    });
+
+    it("should throw when the current secret is missing", () => {
+      delete process.env.JWT_SECRET;
+      expect(() => loadKeyringFromEnv()).toThrow(
+        "Missing environment variable: JWT_SECRET",
+      );
+    });
+
+    it("should reject an unparseable grace window", () => {
+      process.env.JWT_SECRET = "current";
+      process.env.JWT_PREVIOUS_SECRET = "previous";
+      process.env.JWT_PREVIOUS_SECRET_NOT_AFTER = "soon";
+
+      expect(() => loadKeyringFromEnv()).toThrow("Invalid notAfter");
+    });
+  });
+
+  describe("loadKeyringFromFile()", () => {
+    const writeKeyring = (content: unknown) => {
+      const file = join(mkdtempSync(join(tmpdir(), "keyring-")), "keys.json");
+      writeFileSync(file, JSON.stringify(content));
+      return file;
+    };
+
+    it("should load keys with ISO grace windows", () => {
+      const file = writeKeyring({
+        keys: [
+          { kid: "b", secret: "2" },
+          {
+            kid: "a",
+            secret: "1",
+            deprecated: true,
+            notAfter: "2030-01-01T00:00:00Z",
+          },
+        ],
+      });
+
+      const keyring = loadKeyringFromFile(file);
+
+      expect(keyring.keys[1]).toEqual({
+        kid: "a",
+        secret: "1",
+        deprecated: true,
+        notAfter: Date.parse("2030-01-01T00:00:00Z"),
+      });
+    });
+
+    it("should reject files without a keys array", () => {
+      const file = writeKeyring({ secret: "x" });
+      expect(() => loadKeyringFromFile(file)).toThrow("Malformed keyring file");
+    });
+  });
+});
@@ -1,7 +1,14 @@
-import { Response } from "express";
+import { Request, Response } from "express";
 
-import { parsePagination } from "../../src/utils/pagination";
+import {
+  parsePagination,
+  parseTenantPagination,
+} from "../../src/utils/pagination";
 import { buildPaginationMeta, pagedResponse } from "../../src/utils/response";
+import {
+  clearTenantPolicyResolver,
+  registerTenantPolicyResolver,
+} from "../../src/utils/tenantPolicy";
 
 describe("Pagination Utilities", () => {
   describe("parsePagination()", () => {
@@ -157,6 +164,50 @@ describe("Pagination Utilities", () => {
     });
   });
 
+  describe("parseTenantPagination()", () => {
+    const req = (tenantId: string, pageSize: number) =>
+      ({
+        tenantId,
+        query: { pageSize: String(pageSize) },
+      }) as unknown as Request;
+
+    beforeEach(() => {
+      registerTenantPolicyResolver(async (tenantId) =>
+        tenantId === "enterprise" ? { maxPageSize: 1000 } : {},
+      );
+    });
+
+    afterEach(() => {
+      clearTenantPolicyResolver();
+    });
+
+    it("should use the tenant's max page size", async () => {
+      const result = await parseTenantPagination(req("enterprise", 800));
+
+      expect(result.pageSize).toBe(800);
+    });
+
+    it("should fall back to the static max without a tenant limit", async () => {
+      const result = await parseTenantPagination(req("free", 800), {
+        maxPageSize: 100,
+      });
+
+      expect(result.pageSize).toBe(100);
+    });
+
+    it("should keep the static max when the resolver fails", async () => {
+      const errorSpy = jest.spyOn(console, "error").mockImplementation();
+      registerTenantPolicyResolver(async () => {
+        throw new Error("db down");
+      });
+
+      const result = await parseTenantPagination(req("enterprise", 800));
+
+      expect(result.pageSize).toBe(200);
+      errorSpy.mockRestore();
+    });
+  });
+
   describe("buildPaginationMeta()", () => {
     describe("Spec 5.5.6: Meta calculation", () => {
       it("should calculate totalPages correctly", () => {
@@ -0,0 +1,199 @@
+import {
+  assertPermissionExpression,
+  evaluatePermissionExpression,
+  hasPermission,
+  isValidPermission,
+  matchesPermission,
+} from "../../src/utils/permissions";
+
+describe("Permission Matching", () => {
+  describe("isValidPermission()", () => {
+    it.each([
+      "users.read",
+      "project:read",
+      "results:read:own",
+      "project:*",
+      "results:*:own",
+      "*",
+      "test-cases.execute",
+    ])("should accept %s", (permission) => {
+      expect(isValidPermission(permission)).toBe(true);
+    });
+
+    it.each([
+      "",
+      ":",
+      "project:",
+      ":read",
+      "project::read",
+      "project:re*d",
+      "**",
+      "project:**",
+    ])("should reject %j", (permission) => {
+      expect(isValidPermission(permission)).toBe(false);
+    });
+
+    it("should reject non-strings", () => {
+      expect(isValidPermission(undefined)).toBe(false);
+      expect(isValidPermission(42)).toBe(false);
+      expect(isValidPermission(["a"])).toBe(false);
+    });
+  });
+
+  describe("matchesPermission()", () => {
+    it.each([
+      // exact
+      ["users.read", "users.read", true],
+      ["project:read", "project:read", true],
+      ["project:read", "project:write", false],
+      ["Project:read", "project:read", false],
+      // trailing wildcard covers one or more remaining segments
+      ["project:*", "project:read", true],
+      ["project:*", "project:read:own", true],
+      ["project:*", "project", false],
+      ["project:*", "projects:read", false],
+      ["results:read:*", "results:read:own", true],
+      ["results:read:*", "results:read:tenant:all", true],
+      ["results:read:*", "results:read", false],
+      ["results:read:*", "results:write:own", false],
+      // inner wildcard covers exactly one segment
+      ["results:*:own", "results:read:own", true],
+      ["results:*:own", "results:write:own", true],
+      ["results:*:own", "results:read:all", false],
+      ["results:*:own", "results:own", false],
+      ["results:*:own", "results:read:own:extra", false],
+      // global wildcard
+      ["*", "anything", true],
+      ["*", "project:read:own", true],
+      // no implicit hierarchy without a wildcard
+      ["project", "project:read", false],
+      ["project:read", "project:read:own", false],
+      ["project:read:own", "project:read", false],
+      // wildcards on the required side are literal
+      ["project:read", "project:*", false],
+      ["project:*", "project:*", true],
+      ["*", "*", true],
+      // invalid input never matches
+      ["", "", false],
+      ["project:", "project:", false],
+      ["project:re*", "project:read", false],
+    ])("grant %j vs required %j → %s", (grant, required, expected) => {
+      expect(matchesPermission(grant, required)).toBe(expected);
+    });
+  });
+
+  describe("hasPermission()", () => {
+    it("should match any grant on the user", () => {
+      const user = { permissions: ["users.read", "project:*"] };
+
+      expect(hasPermission(user, "users.read")).toBe(true);
+      expect(hasPermission(user, "project:delete")).toBe(true);
+      expect(hasPermission(user, "results:read")).toBe(false);
+    });
+
+    it("should be false for missing users or permissions", () => {
+      expect(hasPermission(undefined, "users.read")).toBe(false);
+      expect(hasPermission({}, "users.read")).toBe(false);
+      expect(hasPermission({ permissions: [] }, "users.read")).toBe(false);
+    });
+  });
+
+  describe("assertPermissionExpression()", () => {
+    it("should accept nested all/any/not trees", () => {
+      expect(() =>
+        assertPermissionExpression({
+          any: [
+            { all: ["project:write", "results:write"] },
+            "admin",
+            { not: "project:*" },
+          ],
+        }),
+      ).not.toThrow();
+    });
+
+    it.each([
+      [{}, "$"],
+      [{ all: [] }, "$.all"],
+      [{ any: "users.read" }, "$.any"],
+      [{ all: ["a"], any: ["b"] }, "$"],
+      [{ xor: ["a", "b"] }, "unknown operator"],
+      [{ any: ["users.read", { not: "" }] }, "$.any[1].not"],
+      [{ all: ["users.read", 42] }, "$.all[1]"],
+      [null, "$"],
+      [["users.read"], "$"],
+    ])("should reject %j", (expression, message) => {
+      expect(() => assertPermissionExpression(expression)).toThrow(message);
+    });
+  });
+
+  describe("evaluatePermissionExpression()", () => {
+    const expression = {
+      any: [{ all: ["project:write", "results:write"] }, "admin"],
+    };
+
+    it("should grant when one branch of any() holds", () => {
+      const result = evaluatePermissionExpression(
+        { permissions: ["project:write", "results:*"] },
+        expression,
+      );
+
+      expect(result).toEqual({ granted: true, missing: [], forbidden: [] });
+    });
+
+    it("should list every missing permission when any() fails", () => {
+      const result = evaluatePermissionExpression(
+        { permissions: ["project:write"] },
+        expression,
+      );
+
+      expect(result).toEqual({
+        granted: false,
+        missing: ["results:write", "admin"],
+        forbidden: [],
+      });
+    });
+
+    it("should list only the failing children of all()", () => {
+      const result = evaluatePermissionExpression(
+        { permissions: ["a"] },
+        { all: ["a", "b", "c"] },
+      );
+
+      expect(result.missing).toEqual(["b", "c"]);
+    });
+
+    it("should report held permissions that a not() excludes", () => {
+      const result = evaluatePermissionExpression(
+        { permissions: ["project:read", "billing:*"] },
+        { all: ["project:read", { not: "billing:read" }] },
+      );
+
+      expect(result).toEqual({
+        granted: false,
+        missing: [],
+        forbidden: ["billing:read"],
+      });
+    });
+
+    it("should flip back under a double negation", () => {
+      const result = evaluatePermissionExpression(
+        { permissions: [] },
+        { not: { not: "users.read" } },
+      );
+
+      expect(result).toEqual({
+        granted: false,
+        missing: ["users.read"],
+        forbidden: [],
+      });
+    });
+
+    it("should deny users without permissions", () => {
+      expect(evaluatePermissionExpression(undefined, "users.read")).toEqual({
+        granted: false,
+        missing: ["users.read"],
+        forbidden: [],
+      });
+    });
+  });
+});
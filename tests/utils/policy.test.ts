@@ -0,0 +1,202 @@
+import {
+  clearPolicyRegistry,
+  createPolicyRegistry,
+  definePolicy,
+  evaluatePolicy,
+  getPolicyRegistry,
+  PolicyContext,
+  registerPolicies,
+} from "../../src/utils/policy";
+
+interface TestRun {
+  tenantId: string;
+  ownerId: string;
+  locked: boolean;
+}
+
+describe("Policy Engine", () => {
+  const editRun = definePolicy<TestRun>({
+    name: "testRun.edit",
+    rules: [
+      {
+        description: "owner may edit",
+        when: ({ subject, resource }) => resource?.ownerId === subject.userId,
+      },
+      {
+        description: "leads may edit",
+        when: ({ subject }) => subject.role === "lead",
+      },
+      {
+        description: "locked runs are read-only",
+        effect: "deny",
+        when: ({ resource }) => resource?.locked === true,
+      },
+    ],
+  });
+
+  const context = (
+    overrides: Partial<PolicyContext<TestRun>> = {},
+  ): PolicyContext<TestRun> => ({
+    subject: { userId: "user-1", tenantId: "tenant-1" },
+    action: "update",
+    resource: { tenantId: "tenant-1", ownerId: "user-1", locked: false },
+    environment: { time: new Date("2026-01-01T10:00:00Z") },
+    ...overrides,
+  });
+
+  afterEach(() => clearPolicyRegistry());
+
+  describe("evaluatePolicy()", () => {
+    it("should allow when an allow rule matches", () => {
+      const decision = evaluatePolicy(editRun, context());
+
+      expect(decision).toMatchObject({
+        policy: "testRun.edit",
+        action: "update",
+        allowed: true,
+        reason: "Allowed by rule: owner may edit",
+      });
+      expect(decision.rules).toEqual([
+        { description: "owner may edit", effect: "allow", matched: true },
+        { description: "leads may edit", effect: "allow", matched: false },
+        {
+          description: "locked runs are read-only",
+          effect: "deny",
+          matched: false,
+        },
+      ]);
+    });
+
+    it("should let deny rules override allow rules", () => {
+      const decision = evaluatePolicy(
+        editRun,
+        context({
+          resource: { tenantId: "tenant-1", ownerId: "user-1", locked: true },
+        }),
+      );
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.reason).toBe("Denied by rule: locked runs are read-only");
+    });
+
+    it("should deny by default when nothing matches", () => {
+      const decision = evaluatePolicy(
+        editRun,
+        context({ subject: { userId: "user-2", tenantId: "tenant-1" } }),
+      );
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.reason).toBe("No rule allowed the request");
+    });
+
+    it("should evaluate action and environment attributes", () => {
+      const businessHours = definePolicy({
+        name: "report.export",
+        rules: [
+          {
+            description: "exports during business hours from the office",
+            when: ({ action, environment }) =>
+              action === "export" &&
+              environment.time.getUTCHours() >= 9 &&
+              environment.time.getUTCHours() < 17 &&
+              environment.ip === "10.0.0.5",
+          },
+        ],
+      });
+
+      expect(
+        evaluatePolicy(businessHours, {
+          subject: { userId: "u", tenantId: "t" },
+          action: "export",
+          environment: {
+            time: new Date("2026-01-01T10:00:00Z"),
+            ip: "10.0.0.5",
+          },
+        }).allowed,
+      ).toBe(true);
+      expect(
+        evaluatePolicy(businessHours, {
+          subject: { userId: "u", tenantId: "t" },
+          action: "export",
+          environment: {
+            time: new Date("2026-01-01T20:00:00Z"),
+            ip: "10.0.0.5",
+          },
+        }).allowed,
+      ).toBe(false);
+    });
+
+    it("should fail closed when a predicate throws", () => {
+      const errorSpy = jest.spyOn(console, "error").mockImplementation();
+      const broken = definePolicy({
+        name: "broken",
+        rules: [
+          { description: "always", when: () => true },
+          {
+            description: "explodes",
+            effect: "deny",
+            when: () => {
+              throw new Error("boom");
+            },
+          },
+        ],
+      });
+
+      const decision = evaluatePolicy(broken, context());
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.rules[1]).toEqual({
+        description: "explodes",
+        effect: "deny",
+        matched: true,
+        error: "boom",
+      });
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe("definePolicy()", () => {
+    it("should reject policies without a name or rules", () => {
+      expect(() => definePolicy({ name: "", rules: [] })).toThrow(
+        "Policy name is required",
+      );
+      expect(() => definePolicy({ name: "empty", rules: [] })).toThrow(
+        'Policy "empty" has no rules',
+      );
+    });
+
+    it("should reject rules without a predicate", () => {
+      expect(() =>
+        definePolicy({
+          name: "bad",
+          rules: [{ description: "nope" } as never],
+        }),
+      ).toThrow('Policy "bad" rule 0');
+    });
+  });
+
+  describe("createPolicyRegistry()", () => {
+    it("should look up policies by name", () => {
+      const registry = createPolicyRegistry([editRun]);
+
+      expect(registry.get("testRun.edit")).toBe(editRun);
+      expect(registry.get("missing")).toBeUndefined();
+      expect(registry.names()).toEqual(["testRun.edit"]);
+    });
+
+    it("should reject duplicate names", () => {
+      expect(() => createPolicyRegistry([editRun, editRun])).toThrow(
+        "Duplicate policy name: testRun.edit",
+      );
+    });
+
+    it("should install the default registry", () => {
+      expect(getPolicyRegistry()).toBeUndefined();
+
+      const registry = registerPolicies([editRun]);
+
+      expect(getPolicyRegistry()).toBe(registry);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  createMemoryRevocationStore,
+  isRevoked,
+  RevocationStore,
+} from "../../src/utils/revocation";
+
+describe("Revocation Utils", () => {
+  const now = () => Math.floor(Date.now() / 1000);
+  const base = { userId: "user-1", tenantId: "tenant-1" };
+
+  describe("createMemoryRevocationStore()", () => {
+    it("should revoke individual tokens by jti", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeToken("jti-1", now() + 60);
+
+      await expect(store.isTokenRevoked("jti-1")).resolves.toBe(true);
+      await expect(store.isTokenRevoked("jti-2")).resolves.toBe(false);
+    });
+
+    it("should forget token revocations once the token has expired", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeToken("jti-1", now() - 1);
+
+      await expect(store.isTokenRevoked("jti-1")).resolves.toBe(false);
+    });
+
+    it("should scope user revocations to the tenant", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeUser("tenant-1", "user-1", 100);
+
+      await expect(
+        store.getUserRevokedBefore("tenant-1", "user-1"),
+      ).resolves.toBe(100);
+      await expect(
+        store.getUserRevokedBefore("tenant-2", "user-1"),
+      ).resolves.toBeUndefined();
+    });
+
+    it("should clear all entries", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeToken("jti-1");
+      store.revokeTenant("tenant-1");
+
+      store.clear();
+
+      await expect(store.isTokenRevoked("jti-1")).resolves.toBe(false);
+      await expect(
+        store.getTenantRevokedBefore("tenant-1"),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("isRevoked()", () => {
+    it("should report tokens revoked by jti", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeToken("jti-1");
+
+      await expect(
+        isRevoked(store, { ...base, jti: "jti-1", issuedAt: now() }),
+      ).resolves.toBe(true);
+    });
+
+    it("should revoke tokens issued at or before a user cutoff", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeUser("tenant-1", "user-1", 1_000);
+
+      await expect(isRevoked(store, { ...base, issuedAt: 999 })).resolves.toBe(
+        true,
+      );
+      await expect(
+        isRevoked(store, { ...base, issuedAt: 1_000 }),
+      ).resolves.toBe(true);
+      await expect(
+        isRevoked(store, { ...base, issuedAt: 1_001 }),
+      ).resolves.toBe(false);
+    });
+
+    it("should revoke every user in a tenant before the cutoff", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeTenant("tenant-1", 1_000);
+
+      await expect(
+        isRevoked(store, {
+          userId: "other",
+          tenantId: "tenant-1",
+          issuedAt: 5,
+        }),
+      ).resolves.toBe(true);
+      await expect(
+        isRevoked(store, {
+          userId: "other",
+          tenantId: "tenant-2",
+          issuedAt: 5,
+        }),
+      ).resolves.toBe(false);
+    });
+
+    it("should check every membership tenant", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeTenant("tenant-2", 1_000);
+      store.revokeUser("tenant-3", "user-1", 1_000);
+
+      await expect(
+        isRevoked(store, {
+          ...base,
+          membershipTenantIds: ["tenant-2"],
+          issuedAt: 5,
+        }),
+      ).resolves.toBe(true);
+      await expect(
+        isRevoked(store, {
+          ...base,
+          membershipTenantIds: ["tenant-3"],
+          issuedAt: 5,
+        }),
+      ).resolves.toBe(true);
+      await expect(
+        isRevoked(store, {
+          ...base,
+          membershipTenantIds: ["tenant-4"],
+          issuedAt: 5,
+        }),
+      ).resolves.toBe(false);
+    });
+
+    it("should treat tokens without iat as issued before any cutoff", async () => {
+      const store = createMemoryRevocationStore();
+      store.revokeUser("tenant-1", "user-1", 1);
+
+      await expect(isRevoked(store, base)).resolves.toBe(true);
+    });
+
+    it("should report not revoked when nothing matches", async () => {
+      const store = createMemoryRevocationStore();
+
+      await expect(
+        isRevoked(store, { ...base, jti: "jti-1", issuedAt: now() }),
+      ).resolves.toBe(false);
+    });
+
+    it("should propagate store failures", async () => {
+      const store: RevocationStore = {
+        isTokenRevoked: jest.fn().mockRejectedValue(new Error("redis down")),
+        getUserRevokedBefore: jest.fn(),
+        getTenantRevokedBefore: jest.fn(),
+      };
+
+      await expect(isRevoked(store, { ...base, jti: "x" })).rejects.toThrow(
+        "redis down",
+      );
+    });
+  });
+});
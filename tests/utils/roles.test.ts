@@ -0,0 +1,151 @@
+import {
+  clearRoleRegistry,
+  createRoleRegistry,
+  getEffectivePermissions,
+  getRoleRegistry,
+  registerRoles,
+} from "../../src/utils/roles";
+
+describe("Role Registry", () => {
+  const definitions = {
+    viewer: { permissions: ["project:read", "results:read"] },
+    tester: { permissions: ["results:write"], inherits: ["viewer"] },
+    manager: { permissions: ["project:write"], inherits: ["tester"] },
+    auditor: { permissions: ["audit:read"], inherits: ["viewer"] },
+    lead: { inherits: ["manager", "auditor"] },
+  };
+
+  afterEach(() => clearRoleRegistry());
+
+  describe("createRoleRegistry()", () => {
+    it("should resolve a role's own permissions", () => {
+      const registry = createRoleRegistry(definitions);
+
+      expect(registry.resolve("viewer")).toEqual([
+        "project:read",
+        "results:read",
+      ]);
+    });
+
+    it("should expand inherited permissions transitively", () => {
+      const registry = createRoleRegistry(definitions);
+
+      expect(registry.resolve("manager").sort()).toEqual([
+        "project:read",
+        "project:write",
+        "results:read",
+        "results:write",
+      ]);
+    });
+
+    it("should merge diamond inheritance without duplicates", () => {
+      const registry = createRoleRegistry(definitions);
+
+      expect(registry.resolve("lead").sort()).toEqual([
+        "audit:read",
+        "project:read",
+        "project:write",
+        "results:read",
+        "results:write",
+      ]);
+    });
+
+    it("should return no grants for unknown roles", () => {
+      const registry = createRoleRegistry(definitions);
+
+      expect(registry.has("ghost")).toBe(false);
+      expect(registry.resolve("ghost")).toEqual([]);
+      expect(registry.resolve("constructor")).toEqual([]);
+    });
+
+    it("should list registered roles", () => {
+      expect(createRoleRegistry(definitions).roles().sort()).toEqual([
+        "auditor",
+        "lead",
+        "manager",
+        "tester",
+        "viewer",
+      ]);
+    });
+
+    it("should not expose its internal arrays", () => {
+      const registry = createRoleRegistry(definitions);
+      registry.resolve("viewer").push("admin:*");
+
+      expect(registry.resolve("viewer")).not.toContain("admin:*");
+    });
+
+    it("should reject unknown inherited roles", () => {
+      expect(() =>
+        createRoleRegistry({ tester: { inherits: ["viewer"] } }),
+      ).toThrow('Unknown role "viewer" inherited by "tester"');
+    });
+
+    it("should reject circular inheritance", () => {
+      expect(() =>
+        createRoleRegistry({
+          a: { inherits: ["b"] },
+          b: { inherits: ["c"] },
+          c: { inherits: ["a"] },
+        }),
+      ).toThrow("Circular role inheritance: a -> b -> c -> a");
+    });
+
+    it("should reject invalid permissions", () => {
+      expect(() =>
+        createRoleRegistry({ viewer: { permissions: ["project::read"] } }),
+      ).toThrow('Invalid permission in role "viewer"');
+    });
+  });
+
+  describe("registerRoles()", () => {
+    it("should install the default registry", () => {
+      expect(getRoleRegistry()).toBeUndefined();
+
+      const registry = registerRoles(definitions);
+
+      expect(getRoleRegistry()).toBe(registry);
+    });
+  });
+
+  describe("getEffectivePermissions()", () => {
+    it("should combine explicit and role permissions", () => {
+      const registry = createRoleRegistry(definitions);
+
+      expect(
+        getEffectivePermissions(
+          { role: "viewer", permissions: ["billing:read"] },
+          registry,
+        ).sort(),
+      ).toEqual(["billing:read", "project:read", "results:read"]);
+    });
+
+    it("should expand roleId as well as role", () => {
+      const registry = createRoleRegistry(definitions);
+
+      expect(
+        getEffectivePermissions(
+          { role: "viewer", roleId: "auditor" },
+          registry,
+        ).sort(),
+      ).toEqual(["audit:read", "project:read", "results:read"]);
+    });
+
+    it("should fall back to the registered default", () => {
+      registerRoles(definitions);
+
+      expect(getEffectivePermissions({ role: "tester" }).sort()).toEqual([
+        "project:read",
+        "results:read",
+        "results:write",
+      ]);
+    });
+
+    it("should use explicit permissions only without a registry", () => {
+      expect(
+        getEffectivePermissions({ role: "viewer", permissions: ["a:b"] }),
+      ).toEqual(["a:b"]);
+      expect(getEffectivePermissions(undefined)).toEqual([]);
+    });
+  });
+});
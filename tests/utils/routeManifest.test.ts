@@ -0,0 +1,229 @@
+import express, { NextFunction, Request, Response } from "express";
+
+import { authenticate } from "../../src/middlewares/auth.middleware";
+import { requireOwnership } from "../../src/middlewares/ownership.middleware";
+import {
+  requireAnyPermission,
+  requirePermission,
+  requirePermissions,
+} from "../../src/middlewares/permission.middleware";
+import { requirePolicy } from "../../src/middlewares/policy.middleware";
+import {
+  enforceTenantOnBody,
+  requireTenant,
+} from "../../src/middlewares/tenant.middleware";
+import {
+  buildRouteManifest,
+  clearDeclaredPermissions,
+  declareGuard,
+  findUnguardedRoutes,
+  getDeclaredPermissions,
+  getGuardDeclaration,
+} from "../../src/utils/routeManifest";
+
+describe("Route Manifest", () => {
+  const handler = (_req: Request, res: Response) => res.end();
+
+  const buildApp = () => {
+    const app = express();
+    app.get("/health", handler);
+
+    const projects = express.Router();
+    projects.use(requireTenant);
+    projects.get("/", requirePermission("project:read"), handler);
+    projects.post(
+      "/",
+      requirePermissions({ all: ["project:write", "results:write"] }),
+      enforceTenantOnBody(),
+      handler,
+    );
+    projects.put(
+      "/:id",
+      requireOwnership(async () => null, {
+        bypassPermissions: ["project:admin"],
+      }),
+      handler,
+    );
+    projects.delete("/:id", requirePolicy("project.delete"), handler);
+
+    const admin = express.Router();
+    admin.use(requireAnyPermission(["admin:*"]));
+    admin.get("/stats", handler);
+
+    app.use("/api", authenticate);
+    app.use("/api/projects", projects);
+    app.use("/api/tenants/:tenantId/admin", admin);
+    app.get("/api/unguarded", handler);
+    return app;
+  };
+
+  it("should list every route with its guards", () => {
+    const manifest = buildRouteManifest(buildApp());
+
+    expect(
+      manifest.map(
+        ({ method, path, permissions, authenticated, tenantEnforced }) => ({
+          method,
+          path,
+          permissions,
+          authenticated,
+          tenantEnforced,
+        }),
+      ),
+    ).toEqual([
+      {
+        method: "GET",
+        path: "/health",
+        permissions: [],
+        authenticated: false,
+        tenantEnforced: false,
+      },
+      {
+        method: "GET",
+        path: "/api/projects",
+        permissions: ["project:read"],
+        authenticated: true,
+        tenantEnforced: true,
+      },
+      {
+        method: "POST",
+        path: "/api/projects",
+        permissions: ["project:write", "results:write"],
+        authenticated: true,
+        tenantEnforced: true,
+      },
+      {
+        method: "PUT",
+        path: "/api/projects/:id",
+        permissions: [],
+        authenticated: true,
+        tenantEnforced: true,
+      },
+      {
+        method: "DELETE",
+        path: "/api/projects/:id",
+        permissions: [],
+        authenticated: true,
+        tenantEnforced: true,
+      },
+      {
+        method: "GET",
+        path: "/api/tenants/:tenantId/admin/stats",
+        permissions: ["admin:*"],
+        authenticated: true,
+        tenantEnforced: false,
+      },
+      {
+        method: "GET",
+        path: "/api/unguarded",
+        permissions: [],
+        authenticated: true,
+        tenantEnforced: false,
+      },
+    ]);
+  });
+
+  it("should describe each guard", () => {
+    const manifest = buildRouteManifest(buildApp());
+    const post = manifest.find(
+      (entry) => entry.method === "POST" && entry.path === "/api/projects",
+    );
+    const put = manifest.find((entry) => entry.method === "PUT");
+    const del = manifest.find((entry) => entry.method === "DELETE");
+
+    expect(post?.guards).toEqual([
+      { kind: "authentication", requirement: "bearer" },
+      { kind: "tenant", requirement: "tenant context" },
+      {
+        kind: "permission",
+        requirement: '{"all":["project:write","results:write"]}',
+        permissions: ["project:write", "results:write"],
+      },
+      { kind: "tenant", requirement: "body.tenantId" },
+    ]);
+    expect(put?.guards).toContainEqual({
+      kind: "ownership",
+      requirement: "owner:ownerId",
+      permissions: ["project:admin"],
+    });
+    expect(del?.guards).toContainEqual({
+      kind: "policy",
+      requirement: "project.delete",
+    });
+  });
+
+  it("should not apply middleware mounted on a sibling path", () => {
+    const app = express();
+    app.use("/admin", requirePermission("admin:read"));
+    app.get("/administrators", handler);
+    app.get("/admin/users", handler);
+
+    const [siblings, nested] = buildRouteManifest(app);
+
+    expect(siblings.permissions).toEqual([]);
+    expect(nested.permissions).toEqual(["admin:read"]);
+  });
+
+  it("should only apply method-specific route handlers to that method", () => {
+    const router = express.Router();
+    router
+      .route("/items")
+      .get(handler)
+      .post(requirePermission("items:create"), handler);
+
+    const manifest = buildRouteManifest(router);
+
+    expect(manifest.map((entry) => [entry.method, entry.permissions])).toEqual([
+      ["GET", []],
+      ["POST", ["items:create"]],
+    ]);
+  });
+
+  it("should find routes without an authorization guard", () => {
+    const unguarded = findUnguardedRoutes(buildRouteManifest(buildApp()), {
+      ignore: ["/health"],
+    });
+
+    expect(unguarded.map((entry) => `${entry.method} ${entry.path}`)).toEqual([
+      "GET /api/unguarded",
+    ]);
+  });
+
+  it("should accept method-qualified ignores and custom guard kinds", () => {
+    const manifest = buildRouteManifest(buildApp());
+
+    expect(
+      findUnguardedRoutes(manifest, {
+        guards: ["authentication"],
+        ignore: ["GET /health"],
+      }),
+    ).toEqual([]);
+  });
+
+  it("should collect permissions declared by middlewares", () => {
+    clearDeclaredPermissions();
+
+    requirePermission("reports:read");
+    requirePermissions({ any: ["reports:export", { not: "reports:read" }] });
+
+    expect(getDeclaredPermissions()).toEqual([
+      "reports:export",
+      "reports:read",
+    ]);
+  });
+
+  it("should let custom middleware declare itself as a guard", () => {
+    const custom = declareGuard(
+      (_req: Request, _res: Response, next: NextFunction) => next(),
+      { kind: "permission", requirement: "custom", permissions: ["x:y"] },
+    );
+
+    expect(getGuardDeclaration(custom)).toEqual({
+      kind: "permission",
+      requirement: "custom",
+      permissions: ["x:y"],
+    });
+    expect(getGuardDeclaration(handler)).toBeUndefined();
+    expect(Object.keys(custom)).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import jwt from "jsonwebtoken";
+
+import { ErrorCode } from "../../src/types/api";
+import { createKeyring } from "../../src/utils/keyring";
+import {
+  signServiceToken,
+  verifyServiceToken,
+} from "../../src/utils/serviceToken";
+
+describe("Service Token Utils", () => {
+  const SERVICE_SECRET = process.env.SERVICE_JWT_SECRET!;
+
+  describe("signServiceToken()", () => {
+    it("should mint a short-lived HS256 service token", () => {
+      const token = signServiceToken({
+        service: "results-service",
+        audience: "project-service",
+      });
+
+      const decoded = jwt.decode(token, { complete: true })!;
+      const payload = decoded.payload as jwt.JwtPayload;
+      expect(decoded.header.alg).toBe("HS256");
+      expect(payload.sub).toBe("results-service");
+      expect(payload.aud).toBe("project-service");
+      expect(payload.token_use).toBe("service");
+      expect(payload.exp! - payload.iat!).toBe(60);
+      expect(payload.jti).toEqual(expect.any(String));
+    });
+
+    it("should honour a custom ttl", () => {
+      const token = signServiceToken({ service: "a", ttlSeconds: 5 });
+      const payload = jwt.decode(token) as jwt.JwtPayload;
+
+      expect(payload.exp! - payload.iat!).toBe(5);
+    });
+
+    it("should sign with the current keyring key and its kid", () => {
+      const keyring = createKeyring([
+        { kid: "old", secret: "old-secret", deprecated: true },
+        { kid: "new", secret: "new-secret" },
+      ]);
+
+      const token = signServiceToken({ service: "a", keyring });
+
+      expect(jwt.decode(token, { complete: true })!.header.kid).toBe("new");
+      expect(() => jwt.verify(token, "new-secret")).not.toThrow();
+    });
+
+    it("should throw when no secret is configured", () => {
+      const original = process.env.SERVICE_JWT_SECRET;
+      delete process.env.SERVICE_JWT_SECRET;
+
+      expect(() => signServiceToken({ service: "a" })).toThrow(
+        "SERVICE_JWT_SECRET",
+      );
+
+      process.env.SERVICE_JWT_SECRET = original;
+    });
+  });
+
+  describe("verifyServiceToken()", () => {
+    it("should return the service principal", () => {
+      const token = signServiceToken({
+        service: "results-service",
+        permissions: ["projects:read"],
+        onBehalfOf: "user-1",
+      });
+
+      expect(verifyServiceToken(token)).toEqual({
+        serviceId: "results-service",
+        permissions: ["projects:read"],
+        onBehalfOf: "user-1",
+        tokenId: expect.any(String),
+      });
+    });
+
+    it("should reject user tokens signed with the same secret", () => {
+      const token = jwt.sign(
+        { userId: "u", tenantId: "t", sub: "u" },
+        SERVICE_SECRET,
+        { expiresIn: "1m" },
+      );
+
+      expect(() => verifyServiceToken(token)).toThrow(
+        expect.objectContaining({
+          status: 401,
+          code: ErrorCode.UNAUTHORIZED,
+          message: "Invalid service token",
+        }),
+      );
+    });
+
+    it("should reject service tokens without exp", () => {
+      const token = jwt.sign(
+        { token_use: "service", sub: "a" },
+        SERVICE_SECRET,
+      );
+
+      expect(() => verifyServiceToken(token)).toThrow("Invalid service token");
+    });
+
+    it("should reject expired service tokens", () => {
+      const token = jwt.sign(
+        { token_use: "service", sub: "a" },
+        SERVICE_SECRET,
+        { expiresIn: -10 },
+      );
+
+      expect(() => verifyServiceToken(token)).toThrow("Invalid service token");
+    });
+
+    it("should reject tokens signed with another secret", () => {
+      const token = signServiceToken({ service: "a", secret: "other" });
+
+      expect(() => verifyServiceToken(token)).toThrow("Invalid service token");
+    });
+
+    it("should enforce the audience", () => {
+      const token = signServiceToken({
+        service: "a",
+        audience: "user-service",
+      });
+
+      expect(() =>
+        verifyServiceToken(token, { audience: "project-service" }),
+      ).toThrow("Invalid service token");
+      expect(
+        verifyServiceToken(token, { audience: "user-service" }).serviceId,
+      ).toBe("a");
+    });
+
+    it("should reject tokens without an audience when one is expected", () => {
+      const token = signServiceToken({ service: "a" });
+
+      expect(() =>
+        verifyServiceToken(token, { audience: "project-service" }),
+      ).toThrow("Invalid service token");
+    });
+
+    it("should reject services outside the allow-list with 403", () => {
+      const token = signServiceToken({ service: "rogue-service" });
+
+      expect(() =>
+        verifyServiceToken(token, { allowedServices: ["results-service"] }),
+      ).toThrow(
+        expect.objectContaining({ status: 403, code: ErrorCode.FORBIDDEN }),
+      );
+    });
+
+    it("should verify against a keyring", () => {
+      const keyring = createKeyring([{ kid: "k1", secret: "ring-secret" }]);
+      const token = signServiceToken({ service: "a", keyring });
+
+      expect(verifyServiceToken(token, { keyring }).serviceId).toBe("a");
+    });
+  });
+});
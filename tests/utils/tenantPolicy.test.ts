@@ -0,0 +1,191 @@
+import { Request } from "express";
+
+import {
+  clearTenantPolicyResolver,
+  getTenantPolicy,
+  hasTenantFeature,
+  invalidateTenantPolicy,
+  registerTenantPolicyResolver,
+  resolveTenantPolicy,
+} from "../../src/utils/tenantPolicy";
+
+describe("Tenant policy resolver", () => {
+  afterEach(() => {
+    clearTenantPolicyResolver();
+    jest.useRealTimers();
+  });
+
+  it("should return an empty policy when no resolver is registered", async () => {
+    await expect(resolveTenantPolicy("tenant-1")).resolves.toEqual({});
+  });
+
+  it("should resolve the tenant policy", async () => {
+    const resolver = jest.fn().mockResolvedValue({ maxPageSize: 500 });
+    registerTenantPolicyResolver(resolver);
+
+    await expect(resolveTenantPolicy("tenant-1")).resolves.toEqual({
+      maxPageSize: 500,
+    });
+    expect(resolver).toHaveBeenCalledWith("tenant-1");
+  });
+
+  it("should cache policies per tenant until the TTL expires", async () => {
+    jest.useFakeTimers({ now: 0 });
+    const resolver = jest.fn().mockResolvedValue({ features: ["export"] });
+    registerTenantPolicyResolver(resolver, { cacheTtlMs: 1_000 });
+
+    await resolveTenantPolicy("tenant-1");
+    await resolveTenantPolicy("tenant-1");
+    await resolveTenantPolicy("tenant-2");
+    expect(resolver).toHaveBeenCalledTimes(2);
+
+    jest.setSystemTime(1_001);
+    await resolveTenantPolicy("tenant-1");
+    expect(resolver).toHaveBeenCalledTimes(3);
+  });
+
+  it("should share one lookup between concurrent requests", async () => {
+    const resolver = jest.fn().mockResolvedValue({});
+    registerTenantPolicyResolver(resolver);
+
+    await Promise.all([
+      resolveTenantPolicy("tenant-1"),
+      resolveTenantPolicy("tenant-1"),
+    ]);
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it("should invalidate cached policies", async () => {
+    const resolver = jest.fn().mockResolvedValue({});
+    registerTenantPolicyResolver(resolver);
+
+    await resolveTenantPolicy("tenant-1");
+    invalidateTenantPolicy("tenant-1");
+    await resolveTenantPolicy("tenant-1");
+    invalidateTenantPolicy();
+    await resolveTenantPolicy("tenant-1");
+    expect(resolver).toHaveBeenCalledTimes(3);
+  });
+
+  it("should fall back to the safe default when the resolver fails", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation();
+    const resolver = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("db down"))
+      .mockResolvedValueOnce({ maxPageSize: 10 });
+    registerTenantPolicyResolver(resolver);
+
+    await expect(resolveTenantPolicy("tenant-1")).resolves.toEqual({});
+    expect(errorSpy).toHaveBeenCalledWith(
+      "[TenantPolicy] Resolver failed",
+      expect.objectContaining({ tenantId: "tenant-1" }),
+    );
+
+    // Failures are not cached
+    await expect(resolveTenantPolicy("tenant-1")).resolves.toEqual({
+      maxPageSize: 10,
+    });
+    errorSpy.mockRestore();
+  });
+
+  it("should treat a synchronous throw as a failure", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation();
+    registerTenantPolicyResolver(() => {
+      throw new Error("boom");
+    });
+
+    await expect(resolveTenantPolicy("tenant-1")).resolves.toEqual({});
+    errorSpy.mockRestore();
+  });
+
+  it("should use the configured fallback for failures and unknown tenants", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation();
+    const fallback = { maxPageSize: 25 };
+    registerTenantPolicyResolver(
+      jest
+        .fn()
+        .mockResolvedValueOnce(null)
+        .mockRejectedValueOnce(new Error("db down")),
+      { fallback },
+    );
+
+    await expect(resolveTenantPolicy("tenant-1")).resolves.toBe(fallback);
+    await expect(resolveTenantPolicy("tenant-2")).resolves.toBe(fallback);
+    errorSpy.mockRestore();
+  });
+
+  describe("getTenantPolicy()", () => {
+    it("should resolve the effective tenant once per request", async () => {
+      const resolver = jest.fn().mockResolvedValue({ maxPageSize: 100 });
+      registerTenantPolicyResolver(resolver, { cacheTtlMs: 0 });
+      const req = {
+        tenantId: "tenant-acted",
+        user: { userId: "u", tenantId: "tenant-home" },
+      } as unknown as Request;
+
+      await getTenantPolicy(req);
+      await getTenantPolicy(req);
+
+      expect(resolver).toHaveBeenCalledTimes(1);
+      expect(resolver).toHaveBeenCalledWith("tenant-acted");
+      expect(req.tenantPolicy).toEqual({
+        tenantId: "tenant-acted",
+        policy: { maxPageSize: 100 },
+      });
+    });
+
+    it("should fall back to the user's tenant", async () => {
+      const resolver = jest.fn().mockResolvedValue({});
+      registerTenantPolicyResolver(resolver);
+
+      await getTenantPolicy({
+        user: { userId: "u", tenantId: "tenant-home" },
+      } as unknown as Request);
+      expect(resolver).toHaveBeenCalledWith("tenant-home");
+    });
+
+    it("should return the default without a tenant", async () => {
+      const resolver = jest.fn();
+      registerTenantPolicyResolver(resolver);
+
+      await expect(getTenantPolicy({} as Request)).resolves.toEqual({});
+      expect(resolver).not.toHaveBeenCalled();
+    });
+
+    it("should not memoize before a tenant is known", async () => {
+      registerTenantPolicyResolver(async () => ({ features: ["export"] }));
+      const req = {} as Request;
+
+      await getTenantPolicy(req);
+      expect(req.tenantPolicy).toBeUndefined();
+
+      req.user = { userId: "u", tenantId: "tenant-a" };
+      await expect(getTenantPolicy(req)).resolves.toEqual({
+        features: ["export"],
+      });
+    });
+
+    it("should re-resolve when the effective tenant changes", async () => {
+      const resolver = jest.fn(async (tenantId: string) => ({
+        maxPageSize: tenantId === "tenant-home" ? 50 : 500,
+      }));
+      registerTenantPolicyResolver(resolver);
+      const req = {
+        user: { userId: "u", tenantId: "tenant-home" },
+      } as unknown as Request;
+
+      await expect(getTenantPolicy(req)).resolves.toEqual({ maxPageSize: 50 });
+      req.tenantId = "tenant-member";
+      await expect(getTenantPolicy(req)).resolves.toEqual({ maxPageSize: 500 });
+      expect(resolver).toHaveBeenCalledWith("tenant-member");
+    });
+  });
+
+  describe("hasTenantFeature()", () => {
+    it("should check the feature list", () => {
+      expect(hasTenantFeature({ features: ["export"] }, "export")).toBe(true);
+      expect(hasTenantFeature({ features: ["export"] }, "sso")).toBe(false);
+      expect(hasTenantFeature({}, "export")).toBe(false);
+    });
+  });
+});
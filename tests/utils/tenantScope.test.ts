@@ -0,0 +1,133 @@
+import { Request } from "express";
+
+import { ErrorCode } from "../../src/types/api";
+import {
+  assertTenantResults,
+  mongoTenantScope,
+  sqlTenantScope,
+  tenantScope,
+} from "../../src/utils/tenantScope";
+
+describe("Tenant Scope", () => {
+  const req = { tenantId: "tenant-1", correlationId: "cid" } as Request;
+  const anonymous = {} as Request;
+
+  describe("tenantScope()", () => {
+    it("should add the tenant to a filter", () => {
+      expect(tenantScope(req, { status: "open" })).toEqual({
+        status: "open",
+        tenantId: "tenant-1",
+      });
+      expect(tenantScope(req)).toEqual({ tenantId: "tenant-1" });
+    });
+
+    it("should use a custom field", () => {
+      expect(tenantScope(req, {}, { field: "orgId" })).toEqual({
+        orgId: "tenant-1",
+      });
+    });
+
+    it("should reject a filter targeting another tenant", () => {
+      expect(() => tenantScope(req, { tenantId: "tenant-2" })).toThrow(
+        expect.objectContaining({ status: 403, code: ErrorCode.FORBIDDEN }),
+      );
+      expect(tenantScope(req, { tenantId: "tenant-1" })).toEqual({
+        tenantId: "tenant-1",
+      });
+    });
+
+    it("should require tenant context", () => {
+      expect(() => tenantScope(anonymous)).toThrow(
+        expect.objectContaining({ status: 401 }),
+      );
+    });
+  });
+
+  describe("mongoTenantScope()", () => {
+    it("should use $eq for the tenant condition", () => {
+      expect(mongoTenantScope(req)).toEqual({ tenantId: { $eq: "tenant-1" } });
+    });
+
+    it("should nest caller filters under $and", () => {
+      const filter = { $or: [{ tenantId: "tenant-2" }, { public: true }] };
+
+      expect(mongoTenantScope(req, filter)).toEqual({
+        $and: [{ tenantId: { $eq: "tenant-1" } }, filter],
+      });
+    });
+  });
+
+  describe("sqlTenantScope()", () => {
+    it("should produce a parameterised fragment", () => {
+      expect(sqlTenantScope(req)).toEqual({
+        text: "tenant_id = $1",
+        values: ["tenant-1"],
+      });
+    });
+
+    it("should support column, placeholder style and parameter index", () => {
+      expect(
+        sqlTenantScope(req, { column: "p.tenant_id", paramIndex: 3 }),
+      ).toEqual({ text: "p.tenant_id = $3", values: ["tenant-1"] });
+      expect(sqlTenantScope(req, { placeholder: "?" })).toEqual({
+        text: "tenant_id = ?",
+        values: ["tenant-1"],
+      });
+    });
+
+    it("should reject unsafe column names", () => {
+      expect(() =>
+        sqlTenantScope(req, { column: "tenant_id = tenant_id OR 1" }),
+      ).toThrow("Invalid SQL column");
+    });
+  });
+
+  describe("assertTenantResults()", () => {
+    it("should return results that all belong to the caller", () => {
+      const rows = [{ tenantId: "tenant-1" }, { tenantId: "tenant-1" }];
+
+      expect(assertTenantResults(req, rows)).toBe(rows);
+      expect(assertTenantResults(req, [])).toEqual([]);
+      expect(assertTenantResults(req, null)).toBeNull();
+    });
+
+    it("should accept a single record", () => {
+      const row = { orgId: "tenant-1" };
+
+      expect(assertTenantResults(req, row, { field: "orgId" })).toBe(row);
+    });
+
+    it("should block results from another tenant", () => {
+      const errorSpy = jest.spyOn(console, "error").mockImplementation();
+
+      expect(() =>
+        assertTenantResults(req, [
+          { tenantId: "tenant-1" },
+          { tenantId: "tenant-2" },
+        ]),
+      ).toThrow(
+        expect.objectContaining({
+          status: 500,
+          message: "Tenant isolation violation",
+        }),
+      );
+      expect(errorSpy).toHaveBeenCalledWith(
+        "[TenantScope] Result outside caller tenant",
+        { tenantId: "tenant-1", index: 1, correlationId: "cid" },
+      );
+      errorSpy.mockRestore();
+    });
+
+    it("should treat records without a tenant as violations", () => {
+      const errorSpy = jest.spyOn(console, "error").mockImplementation();
+
+      expect(() => assertTenantResults(req, [{ id: 1 }])).toThrow(
+        "Tenant isolation violation",
+      );
+      expect(() => assertTenantResults(req, [null])).toThrow(
+        "Tenant isolation violation",
+      );
+      errorSpy.mockRestore();
+    });
+  });
+});
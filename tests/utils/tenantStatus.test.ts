@@ -0,0 +1,86 @@
+import {
+  clearTenantStatusProvider,
+  hasTenantStatusProvider,
+  invalidateTenantStatus,
+  registerTenantStatusProvider,
+  resolveTenantStatus,
+  TenantStatus,
+} from "../../src/utils/tenantStatus";
+
+describe("Tenant status provider", () => {
+  afterEach(() => {
+    clearTenantStatusProvider();
+    jest.useRealTimers();
+  });
+
+  it("should report every tenant active without a provider", async () => {
+    expect(hasTenantStatusProvider()).toBe(false);
+    await expect(resolveTenantStatus("tenant-1")).resolves.toBe("active");
+  });
+
+  it("should resolve the status from the provider", async () => {
+    registerTenantStatusProvider(async () => "suspended");
+
+    expect(hasTenantStatusProvider()).toBe(true);
+    await expect(resolveTenantStatus("tenant-1")).resolves.toBe("suspended");
+  });
+
+  it("should cache statuses until the TTL expires", async () => {
+    jest.useFakeTimers({ now: 0 });
+    const provider = jest.fn().mockResolvedValue("active");
+    registerTenantStatusProvider(provider, { cacheTtlMs: 1_000 });
+
+    await resolveTenantStatus("tenant-1");
+    await resolveTenantStatus("tenant-1");
+    expect(provider).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(1_001);
+    await resolveTenantStatus("tenant-1");
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it("should invalidate cached statuses", async () => {
+    const provider = jest.fn().mockResolvedValue("active");
+    registerTenantStatusProvider(provider);
+
+    await resolveTenantStatus("tenant-1");
+    invalidateTenantStatus("tenant-1");
+    await resolveTenantStatus("tenant-1");
+    invalidateTenantStatus();
+    await resolveTenantStatus("tenant-1");
+    expect(provider).toHaveBeenCalledTimes(3);
+  });
+
+  it("should use the fallback status when the provider fails", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation();
+    const provider = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("db down"))
+      .mockResolvedValueOnce("read-only");
+    registerTenantStatusProvider(provider, { fallback: "suspended" });
+
+    await expect(resolveTenantStatus("tenant-1")).resolves.toBe("suspended");
+    expect(errorSpy).toHaveBeenCalledWith(
+      "[TenantStatus] Provider failed",
+      expect.objectContaining({ tenantId: "tenant-1" }),
+    );
+    await expect(resolveTenantStatus("tenant-1")).resolves.toBe("read-only");
+    errorSpy.mockRestore();
+  });
+
+  it("should treat unknown statuses as failures", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation();
+    registerTenantStatusProvider(async () => "closed" as TenantStatus);
+
+    await expect(resolveTenantStatus("tenant-1")).resolves.toBe("active");
+    errorSpy.mockRestore();
+  });
+
+  it("should reject an invalid fallback status", () => {
+    expect(() =>
+      registerTenantStatusProvider(async () => "active", {
+        fallback: "closed" as TenantStatus,
+      }),
+    ).toThrow('Invalid tenant status: "closed"');
+  });
+});
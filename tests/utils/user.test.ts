@@ -1,7 +1,17 @@
 import { Request } from "express";
 
-import { getUserContext } from "../../src/utils/user";
+import {
+  getRequestPermissions,
+  getTenantScopedUser,
+  getUserContext,
+  hasRequestPermission,
+} from "../../src/utils/user";
 import { UserClaims } from "../../src/types/user";
+import {
+  clearRoleRegistry,
+  createRoleRegistry,
+  registerRoles,
+} from "../../src/utils/roles";
 
 describe("User Context Utilities", () => {
   let mockRequest: Partial<Request>;
@@ -103,4 +113,126 @@ describe("User Context Utilities", () => {
       });
     });
   });
+
+  describe("getTenantScopedUser()", () => {
+    const user: UserClaims = {
+      userId: "user-123",
+      tenantId: "tenant-home",
+      role: "admin",
+      roleId: "role-1",
+      permissions: ["*"],
+      memberships: [
+        {
+          tenantId: "tenant-client",
+          role: "qa",
+          permissions: ["results:write"],
+        },
+      ],
+    };
+
+    it("should return the user unchanged without a selected membership", () => {
+      mockRequest.user = user;
+
+      expect(getTenantScopedUser(mockRequest as Request)).toBe(user);
+    });
+
+    it("should use the selected membership's tenant, role and permissions", () => {
+      mockRequest.user = user;
+      mockRequest.membership = user.memberships![0];
+
+      expect(getTenantScopedUser(mockRequest as Request)).toMatchObject({
+        userId: "user-123",
+        tenantId: "tenant-client",
+        role: "qa",
+        roleId: undefined,
+        permissions: ["results:write"],
+      });
+      expect(getUserContext(mockRequest as Request).tenantId).toBe(
+        "tenant-client",
+      );
+    });
+
+    it("should use the effective tenant of an operator acting as another", () => {
+      mockRequest.user = user;
+      mockRequest.realTenantId = "tenant-home";
+      mockRequest.tenantId = "tenant-customer";
+
+      expect(getTenantScopedUser(mockRequest as Request)).toMatchObject({
+        tenantId: "tenant-customer",
+        role: "admin",
+        permissions: ["*"],
+      });
+      expect(getUserContext(mockRequest as Request).tenantId).toBe(
+        "tenant-customer",
+      );
+    });
+
+    it("should grant nothing when the membership lists no permissions", () => {
+      mockRequest.user = user;
+      mockRequest.membership = { tenantId: "tenant-client" };
+
+      expect(getTenantScopedUser(mockRequest as Request)?.permissions).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe("hasRequestPermission()", () => {
+    afterEach(() => clearRoleRegistry());
+
+    it("should include grants from the registered roles", () => {
+      registerRoles({ viewer: { permissions: ["project:read"] } });
+      mockRequest.user = {
+        userId: "user-1",
+        tenantId: "tenant-1",
+        role: "viewer",
+        permissions: ["results:write"],
+      };
+
+      expect(getRequestPermissions(mockRequest as Request)).toEqual(
+        expect.arrayContaining(["project:read", "results:write"]),
+      );
+      expect(hasRequestPermission(mockRequest as Request, "project:read")).toBe(
+        true,
+      );
+    });
+
+    it("should use an explicit role registry", () => {
+      const roles = createRoleRegistry({ lead: { permissions: ["runs:*"] } });
+      mockRequest.user = { userId: "u", tenantId: "t", role: "lead" };
+
+      expect(
+        hasRequestPermission(mockRequest as Request, "runs:close", { roles }),
+      ).toBe(true);
+      expect(hasRequestPermission(mockRequest as Request, "runs:close")).toBe(
+        false,
+      );
+    });
+
+    it("should use the selected membership instead of home grants", () => {
+      mockRequest.user = {
+        userId: "user-1",
+        tenantId: "tenant-home",
+        permissions: ["project:write"],
+      };
+      mockRequest.membership = {
+        tenantId: "tenant-b",
+        permissions: ["project:read"],
+      };
+
+      expect(
+        hasRequestPermission(mockRequest as Request, "project:write"),
+      ).toBe(false);
+      expect(hasRequestPermission(mockRequest as Request, "project:read")).toBe(
+        true,
+      );
+    });
+
+    it("should grant nothing without a user", () => {
+      expect(getRequestPermissions(mockRequest as Request)).toEqual([]);
+      expect(hasRequestPermission(mockRequest as Request, "project:read")).toBe(
+        false,
+      );
+    });
+  });
 });